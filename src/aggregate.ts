@@ -0,0 +1,140 @@
+import { FirestoreClient } from "./client";
+import { QueryOptions, RequestOptions } from "./types";
+
+/**
+ * An aggregation over the documents matching a query, mirroring the native
+ * Firebase SDK's `AggregateField`: `count()`, `sum(field)` and
+ * `average(field)`. The type parameter is the type of the aggregated value.
+ */
+export class AggregateField<T> {
+  /**
+   * Only used to carry the value type `T`
+   */
+  private readonly _valueType?: T;
+
+  private constructor(
+    readonly aggregateType: "count" | "sum" | "avg",
+    readonly fieldPath?: string
+  ) {}
+
+  /**
+   * Counts the documents matching the query.
+   */
+  static count(): AggregateField<number> {
+    return new AggregateField<number>("count");
+  }
+
+  /**
+   * Sums the numeric values of a field across the matching documents.
+   * Non-numeric values are ignored.
+   */
+  static sum(fieldPath: string): AggregateField<number> {
+    return new AggregateField<number>("sum", fieldPath);
+  }
+
+  /**
+   * Averages the numeric values of a field across the matching documents.
+   * The result is `null` when no document has a numeric value for the field.
+   */
+  static average(fieldPath: string): AggregateField<number | null> {
+    return new AggregateField<number | null>("avg", fieldPath);
+  }
+}
+
+/**
+ * Shorthand for `AggregateField.count()`.
+ */
+export function count(): AggregateField<number> {
+  return AggregateField.count();
+}
+
+/**
+ * Shorthand for `AggregateField.sum()`.
+ */
+export function sum(fieldPath: string): AggregateField<number> {
+  return AggregateField.sum(fieldPath);
+}
+
+/**
+ * Shorthand for `AggregateField.average()`.
+ */
+export function average(fieldPath: string): AggregateField<number | null> {
+  return AggregateField.average(fieldPath);
+}
+
+/**
+ * Aggregations to compute, keyed by the alias they are returned under.
+ */
+export type AggregateSpec = Record<string, AggregateField<any>>;
+
+/**
+ * The aggregated values of an `AggregateSpec`, keyed by alias.
+ */
+export type AggregateSpecData<T extends AggregateSpec> = {
+  [K in keyof T]: T[K] extends AggregateField<infer U> ? U : never;
+};
+
+/**
+ * A query that computes aggregations over its matching documents on the
+ * server (via `runAggregationQuery`) instead of downloading them.
+ */
+export class AggregateQuery<T extends AggregateSpec> {
+  private client: FirestoreClient;
+  private collectionPath: string;
+  private constraints: QueryOptions;
+  private allDescendants: boolean;
+  private aggregations: T;
+
+  constructor(
+    client: FirestoreClient,
+    collectionPath: string,
+    constraints: QueryOptions,
+    allDescendants: boolean,
+    aggregations: T
+  ) {
+    this.client = client;
+    this.collectionPath = collectionPath;
+    this.constraints = constraints;
+    this.allDescendants = allDescendants;
+    this.aggregations = aggregations;
+  }
+
+  /**
+   * Execute the aggregation
+   * @param options `signal` to cancel the request (optional)
+   * @returns AggregateQuerySnapshot instance
+   */
+  async get(options: RequestOptions = {}): Promise<AggregateQuerySnapshot<T>> {
+    const { data, readTime } = await this.client.runAggregationQuery(
+      this.collectionPath,
+      { ...this.constraints, signal: options.signal },
+      this.aggregations,
+      this.allDescendants
+    );
+    return new AggregateQuerySnapshot(data as AggregateSpecData<T>, readTime);
+  }
+}
+
+/**
+ * The result of an `AggregateQuery`.
+ */
+export class AggregateQuerySnapshot<T extends AggregateSpec> {
+  private _data: AggregateSpecData<T>;
+
+  /**
+   * Time at which the aggregation was computed
+   */
+  readonly readTime?: Date;
+
+  constructor(data: AggregateSpecData<T>, readTime?: Date) {
+    this._data = data;
+    this.readTime = readTime;
+  }
+
+  /**
+   * Get the aggregated values, keyed by alias
+   */
+  data(): AggregateSpecData<T> {
+    return this._data;
+  }
+}
@@ -1,16 +1,71 @@
-import { FirestoreConfig, FirestoreResponse, QueryOptions } from "./types";
-import { getFirestoreToken } from "./utils/auth";
 import {
+  AccessToken,
+  CommitResponse,
+  CommitWrite,
+  DocumentData,
+  FirestoreConfig,
+  FirestoreDataConverter,
+  FirestoreFieldValue,
+  FirestoreResponse,
+  LiteralDocumentReference,
+  Logger,
+  MergeSetOptions,
+  Precondition,
+  QueryCursor,
+  QueryOptions,
+  QueryOrdering,
+  ReadOptions,
+  RequestOptions,
+  RunQueryResponseItem,
+  SetOptions,
+  SnapshotMetadata,
+  StreamOptions,
+  UpdateData,
+} from "./types";
+import { createCredentialContext, getFirestoreToken } from "./utils/auth";
+import {
+  applyDataConverter,
   buildCommitWrite,
+  buildDeleteWrite,
   convertFromFirestoreDocument,
+  convertFromFirestoreValue,
+  convertToFirestoreAggregation,
   convertToFirestoreDocument,
+  convertToFirestoreFilter,
+  convertToFirestorePrecondition,
   convertToFirestoreValue,
+  deleteFirestoreField,
+  expandFieldPaths,
   extractFieldTransforms,
+  getFirestoreField,
+  parseFieldPath,
+  prepareSetWrite,
 } from "./utils/converter";
 import { FieldTransform } from "./types";
+import {
+  createAbortError,
+  createFirestoreError,
+  FirestoreError,
+} from "./errors";
+import { Filter } from "./filter";
+import { AggregateField, AggregateQuery, AggregateSpec } from "./aggregate";
 import { getFirestoreBasePath } from "./utils/path";
+import { abortable, withTimeout } from "./utils/abort";
+import { sendRequest } from "./utils/http";
+import { createLogger } from "./utils/logger";
+import { parseJsonArrayStream } from "./utils/json-stream";
+import {
+  backoffDelay,
+  isRetryable,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  RetryPolicy,
+} from "./utils/retry";
+import { formatTimestamp, parseTimestamp } from "./utils/timestamp";
 import { formatPrivateKey } from "./utils/config";
 import { FirestorePath, createFirestorePath } from "./utils/path";
+import { Transaction } from "./transaction";
+import { WriteBatch } from "./write-batch";
 
 /**
  * Generate a random 20-character document ID (same alphabet as the Firebase SDKs).
@@ -25,16 +80,221 @@ function generateAutoId(): string {
   return id;
 }
 
+/**
+ * Query constraints held by CollectionReference / CollectionGroup / Query.
+ * `where` always holds Filter instances and `orderBy` the list of orderings.
+ */
+type QueryConstraints = Omit<QueryOptions, "where" | "orderBy"> & {
+  where: Filter[];
+  orderBy: QueryOrdering[];
+};
+
+/**
+ * List the orderings of query options, whether given as a single `orderBy`
+ * field (with `orderDirection`) or as a list.
+ * @param options Query options
+ * @returns Orderings in order
+ */
+function normalizeOrderings(options: QueryOptions): QueryOrdering[] {
+  if (typeof options.orderBy === "string") {
+    return [
+      {
+        field: options.orderBy,
+        direction:
+          options.orderDirection === "DESCENDING" ? "DESCENDING" : "ASCENDING",
+      },
+    ];
+  }
+  return options.orderBy ?? [];
+}
+
+/**
+ * Build a query cursor from the arguments of startAt() / startAfter() /
+ * endAt() / endBefore(): either values for the orderBy() fields, or a single
+ * DocumentSnapshot whose ordered field values (plus its document name) are
+ * used.
+ * @param client Firestore client
+ * @param collectionPath Path of the queried collection
+ * @param allDescendants Whether the query is a collection group query
+ * @param constraints Current query constraints
+ * @param methodName Cursor method name (for error messages)
+ * @param fieldValuesOrSnapshot Field values or a single DocumentSnapshot
+ * @param before Whether the position is just before the values
+ * @returns Query cursor
+ */
+function createCursor(
+  client: FirestoreClient,
+  collectionPath: string,
+  allDescendants: boolean,
+  constraints: QueryConstraints,
+  methodName: string,
+  fieldValuesOrSnapshot: any[],
+  before: boolean
+): QueryCursor {
+  const orderBy = constraints.orderBy.map(ordering => ordering.field);
+  const [snapshot] = fieldValuesOrSnapshot;
+
+  if (
+    fieldValuesOrSnapshot.length === 1 &&
+    snapshot instanceof DocumentSnapshot
+  ) {
+    if (!snapshot.exists) {
+      throw new Error(
+        `Can't use a DocumentSnapshot that doesn't exist for ${methodName}().`
+      );
+    }
+    const values = orderBy.map(fieldPath => {
+      if (fieldPath === "__name__") {
+        return snapshot.ref;
+      }
+      const value = snapshot.get(fieldPath);
+      if (value === undefined) {
+        throw new Error(
+          `Can't use a DocumentSnapshot for ${methodName}() because the ordered field '${fieldPath}' is missing from the document.`
+        );
+      }
+      return value;
+    });
+    if (!orderBy.includes("__name__")) {
+      values.push(snapshot.ref);
+    }
+    return { values, before };
+  }
+
+  if (fieldValuesOrSnapshot.length === 0) {
+    throw new Error(`${methodName}() requires at least one value.`);
+  }
+  if (fieldValuesOrSnapshot.length > orderBy.length) {
+    throw new Error(
+      `Too many arguments provided to ${methodName}(). The number of arguments must be less than or equal to the number of orderBy() clauses.`
+    );
+  }
+  // Document IDs given for a __name__ ordering are sent as references. A
+  // collection group spans many collections, so it takes full paths instead.
+  const values = fieldValuesOrSnapshot.map((value, i) => {
+    if (orderBy[i] !== "__name__" || typeof value !== "string") {
+      return value;
+    }
+    if (!allDescendants) {
+      return new DocumentReference(client, collectionPath, value);
+    }
+    if (value.split("/").length % 2 !== 0) {
+      throw new Error(
+        `When querying a collection group and ordering by __name__, the value passed to ${methodName}() must be a document path, but '${value}' is not.`
+      );
+    }
+    return client.doc(value);
+  });
+  return { values, before };
+}
+
+/**
+ * Default number of documents requested per page by stream().
+ */
+const DEFAULT_STREAM_PAGE_SIZE = 1000;
+
+/**
+ * Parse an optional API timestamp.
+ */
+function toDate(timestamp?: string): Date | undefined {
+  return timestamp ? parseTimestamp(timestamp) : undefined;
+}
+
+/**
+ * Build the metadata of a snapshot from an API document and its read time.
+ */
+function snapshotMetadata(
+  document: FirestoreResponse | null | undefined,
+  readTime?: string
+): SnapshotMetadata {
+  return {
+    createTime: toDate(document?.createTime),
+    updateTime: toDate(document?.updateTime),
+    readTime: toDate(readTime),
+  };
+}
+
+/**
+ * Create a snapshot of a query result. The reference is built from the
+ * document's full name, so a collection group result points into the
+ * collection it was found in.
+ */
+function createQueryDocumentSnapshot<T>(
+  client: FirestoreClient,
+  result: RunQueryResponseItem & { document: FirestoreResponse },
+  converter: FirestoreDataConverter<T> | null
+): DocumentSnapshot<T> {
+  const { document, readTime } = result;
+  const { collectionPath } = new LiteralDocumentReference({
+    referenceValue: document.name,
+  });
+  const { id, ...data } = convertFromFirestoreDocument(document);
+  return new DocumentSnapshot(
+    new DocumentReference(client, collectionPath, id, converter),
+    data,
+    snapshotMetadata(document, readTime)
+  );
+}
+
+/**
+ * Build the write results of a commit, one per write in request order. A
+ * write that didn't change the document reports no update time and gets the
+ * commit time instead.
+ */
+export function createWriteResults(response: CommitResponse): WriteResult[] {
+  const commitTime = parseTimestamp(response.commitTime);
+  return (response.writeResults ?? []).map(
+    result =>
+      new WriteResult(
+        toDate(result.updateTime) ?? commitTime,
+        (result.transformResults ?? []).map(convertFromFirestoreValue)
+      )
+  );
+}
+
+/**
+ * Build the write result of a PATCH or POST from the written document
+ */
+function documentWriteResult(document: FirestoreResponse): WriteResult {
+  if (!document.updateTime) {
+    throw new Error(`The response for ${document.name} has no updateTime`);
+  }
+  return new WriteResult(parseTimestamp(document.updateTime));
+}
+
+/**
+ * A document returned by a write of FirestoreClient (e.g. `add()`): its ID
+ * and data, with the server's write result in a non-enumerable `writeResult`
+ * property, so the document still compares and serializes as plain data.
+ */
+export type WrittenDocument = Record<string, any> & {
+  id: string;
+  readonly writeResult: WriteResult;
+};
+
+/**
+ * Attach a write result to a written document (see WrittenDocument)
+ */
+function withWriteResult(
+  document: Record<string, any> & { id: string },
+  writeResult: WriteResult
+): WrittenDocument {
+  return Object.defineProperty(document, "writeResult", {
+    value: writeResult,
+    enumerable: false,
+  }) as WrittenDocument;
+}
+
 /**
  * Firestore client class
  */
 export class FirestoreClient {
-  private token: string | null = null;
-  private tokenExpiry: number = 0;
+  private token: AccessToken | null = null;
   private config: FirestoreConfig;
   private configChecked: boolean = false;
-  private debug: boolean = false;
+  private logger: Logger;
   private pathUtil: FirestorePath;
+  private retryPolicy: RetryPolicy;
 
   /**
    * Constructor
@@ -42,16 +302,12 @@ export class FirestoreClient {
    */
   constructor(config: FirestoreConfig) {
     this.config = config;
-    this.pathUtil = createFirestorePath(config, config.debug || false);
-    this.debug = !!config.debug;
-
-    // Log configuration if debug is enabled
-    if (this.debug) {
-      console.log(
-        "Firestore client initialized with config:",
-        JSON.stringify(this.config, null, 2)
-      );
-    }
+    this.logger = createLogger(config);
+    this.pathUtil = createFirestorePath(config, this.logger);
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+
+    // The private key is redacted by the logger
+    this.logger.debug("Firestore client initialized", { config });
   }
 
   /**
@@ -66,8 +322,9 @@ export class FirestoreClient {
     // 必須パラメータのチェック
     const requiredParams: Array<keyof FirestoreConfig> = ["projectId"];
 
-    // Only require auth parameters when not using emulator
-    if (!this.config.useEmulator) {
+    // Only require a service account key when not using emulator or other
+    // credentials
+    if (!this.config.useEmulator && !this.config.credentials) {
       requiredParams.push("privateKey", "clientEmail");
     }
 
@@ -85,39 +342,51 @@ export class FirestoreClient {
 
   /**
    * Get authentication token (with caching)
+   * @param signal Signal of the request the token is for (optional)
    */
-  private async getToken(): Promise<string> {
+  private async getToken(signal?: AbortSignal): Promise<string> {
     // Check settings before operation
     this.checkConfig();
 
     // In emulator mode, we don't need a token
     if (this.config.useEmulator) {
-      if (this.debug) {
-        console.log("Emulator mode: skipping token generation");
-      }
+      this.logger.debug("Emulator mode: skipping token generation");
       return "emulator-fake-token";
     }
 
-    const now = Date.now();
     // トークンが期限切れか未取得の場合は新しく取得
-    if (!this.token || now >= this.tokenExpiry) {
-      if (this.debug) {
-        console.log("Generating new auth token");
-      }
-      this.token = await getFirestoreToken(this.config);
-      // 50分後に期限切れとする（実際は1時間）
-      this.tokenExpiry = now + 50 * 60 * 1000;
+    // (期限の5分前に更新し、期限のないトークンはキャッシュしない)
+    let token = this.token;
+    if (
+      !token ||
+      token.expiresAt === undefined ||
+      Date.now() >= token.expiresAt - 5 * 60 * 1000
+    ) {
+      this.logger.debug("Generating new auth token");
+      token = this.config.credentials
+        ? await this.config.credentials.getAccessToken(
+            createCredentialContext(this.config, signal)
+          )
+        : {
+            // Service account key from the config; tokens last an hour
+            token: await getFirestoreToken(this.config, signal),
+            expiresAt: Date.now() + 60 * 60 * 1000,
+          };
+      this.token = token;
     }
-    return this.token;
+    return token.token;
   }
 
   /**
    * Prepare request headers
+   * @param signal Signal of the request, which also cancels getting a token
+   * (optional)
    * @param additionalHeaders Additional headers
    * @returns Prepared headers object
    * @private
    */
   private async prepareHeaders(
+    signal?: AbortSignal,
     additionalHeaders: Record<string, string> = {}
   ): Promise<Record<string, string>> {
     const headers: Record<string, string> = {
@@ -127,10 +396,10 @@ export class FirestoreClient {
 
     // Only add auth token for production environment
     if (!this.config.useEmulator) {
-      const token = await this.getToken();
+      const token = await this.getToken(signal);
       headers["Authorization"] = `Bearer ${token}`;
-    } else if (this.debug) {
-      console.log("Using emulator mode, skipping authorization header");
+    } else {
+      this.logger.debug("Using emulator mode, skipping authorization header");
     }
 
     return headers;
@@ -154,6 +423,9 @@ export class FirestoreClient {
    * @param fields Already-converted Firestore field values
    * @param transforms Field transforms to apply after the update
    * @param currentDocument Optional precondition (e.g. `{ exists: false }`)
+   * @param updateMask Optional field paths to update (whole document if omitted)
+   * @param signal Abort signal (optional)
+   * @returns Commit response
    * @private
    */
   private async commit(
@@ -161,8 +433,10 @@ export class FirestoreClient {
     documentId: string,
     fields: Record<string, any>,
     transforms: FieldTransform[],
-    currentDocument?: { exists?: boolean; updateTime?: string }
-  ): Promise<void> {
+    currentDocument?: { exists?: boolean; updateTime?: string },
+    updateMask?: string[],
+    signal?: AbortSignal
+  ): Promise<CommitResponse> {
     const documentName = this.pathUtil.getParentReference(
       `${collectionName}/${documentId}`
     );
@@ -170,58 +444,377 @@ export class FirestoreClient {
       documentName,
       fields,
       transforms,
-      currentDocument
+      currentDocument,
+      updateMask
     );
+    return this.commitWrites([write], undefined, { signal });
+  }
+
+  /**
+   * Apply writes atomically through the `documents:commit` endpoint. Either
+   * all writes succeed or none of them are applied.
+   * Used by WriteBatch and Transaction; most callers should use `batch()` or
+   * `runTransaction()` instead.
+   * @param writes Writes to apply, in order
+   * @param transaction Transaction ID to commit (optional)
+   * @param options `signal` to cancel the request (optional)
+   * @returns Commit response with one write result per write
+   */
+  async commitWrites(
+    writes: CommitWrite[],
+    transaction?: string,
+    options: RequestOptions = {}
+  ): Promise<CommitResponse> {
     const url = `${this.pathUtil.getBasePath()}:commit`;
 
-    if (this.debug) {
-      console.log(`Committing write to: ${url}`, JSON.stringify(write));
-    }
+    this.logger.debug("Committing writes", { url, writes });
 
-    const headers = await this.prepareHeaders();
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({ writes: [write] }),
+    const body: { writes: CommitWrite[]; transaction?: string } = { writes };
+    if (transaction) {
+      body.transaction = transaction;
+    }
+    return this.post<CommitResponse>(url, body, {
+      ...options,
+      idempotent: false,
     });
+  }
+
+  /**
+   * Start a read-write transaction
+   * @param retryTransaction ID of a previous attempt being retried (optional)
+   * @param options `signal` to cancel the request (optional)
+   * @returns Transaction ID
+   */
+  async beginTransaction(
+    retryTransaction?: string,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const url = `${this.pathUtil.getBasePath()}:beginTransaction`;
+    const readWrite = retryTransaction ? { retryTransaction } : {};
+
+    this.logger.debug("Beginning transaction", { url });
+
+    const result = await this.post<{ transaction: string }>(
+      url,
+      { options: { readWrite } },
+      options
+    );
+    return result.transaction;
+  }
+
+  /**
+   * Roll back a transaction, releasing its locks
+   * @param transaction Transaction ID
+   */
+  async rollback(transaction: string): Promise<void> {
+    const url = `${this.pathUtil.getBasePath()}:rollback`;
+
+    this.logger.debug("Rolling back transaction", { url, transaction });
+
+    await this.post(url, { transaction });
+  }
+
+  /**
+   * Run a function inside a read-write transaction. Reads made through the
+   * Transaction are isolated; its writes are buffered and committed atomically
+   * when the function resolves. The transaction is rolled back if the function
+   * throws, and the whole function is retried with backoff when Firestore
+   * aborts the transaction due to contention.
+   * @param updateFunction Function to run; may be called more than once
+   * @param options `maxAttempts` (default 5) and `signal` to cancel the
+   * transaction's requests
+   * @returns The value returned by updateFunction
+   *
+   * @example
+   * await client.runTransaction(async tx => {
+   *   const snapshot = await tx.get(counterRef);
+   *   tx.update(counterRef, { count: snapshot.data()!.count + 1 });
+   * });
+   */
+  async runTransaction<T>(
+    updateFunction: (transaction: Transaction) => Promise<T>,
+    options: { maxAttempts?: number } & RequestOptions = {}
+  ): Promise<T> {
+    const { maxAttempts = 5, signal } = options;
+    let previousTransaction: string | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      const transactionId = await this.beginTransaction(previousTransaction, {
+        signal,
+      });
+      const transaction = new Transaction(this, transactionId, { signal });
+      let committing = false;
+
+      try {
+        const result = await updateFunction(transaction);
+        committing = true;
+        await transaction._commit();
+        return result;
+      } catch (error) {
+        // A failed commit already ends the transaction server-side. The
+        // rollback is sent without the signal, so an aborted transaction
+        // still releases its locks.
+        if (!committing) {
+          await this.rollback(transactionId).catch(rollbackError => {
+            this.logger.warn("Transaction rollback failed", {
+              transaction: transactionId,
+              error: rollbackError,
+            });
+          });
+        }
+
+        const aborted =
+          error instanceof FirestoreError && error.code === "ABORTED";
+        if (!aborted || attempt >= maxAttempts - 1) {
+          throw error;
+        }
+
+        // Jittered, so transactions that conflicted don't conflict again
+        const delay = backoffDelay(this.retryPolicy, attempt);
+        this.logger.info("Transaction aborted, retrying", {
+          transaction: transactionId,
+          delayMs: Math.round(delay),
+          attempt: attempt + 2,
+          maxAttempts,
+        });
+        previousTransaction = transactionId;
+        // An abort during the delay fails the next beginTransaction()
+        await abortable(this.retryPolicy.clock.sleep(delay), signal).catch(
+          () => undefined
+        );
+      }
+    }
+  }
+
+  /**
+   * POST a JSON body to a Firestore RPC endpoint (e.g. `:commit`) and parse
+   * the JSON response. Failures are thrown as a FirestoreError.
+   * @param options `signal` to cancel the request, `idempotent`: whether
+   * the request may be retried on any transient error (false for commits),
+   * and `transactional`: whether it is bound to a transaction
+   * @private
+   */
+  private async post<T = unknown>(
+    url: string,
+    body: unknown,
+    options: RequestOptions & {
+      idempotent?: boolean;
+      transactional?: boolean;
+    } = {}
+  ): Promise<T> {
+    // Check settings before operation
+    this.checkConfig();
+
+    const headers = await this.prepareHeaders(options.signal);
+    return this.fetchWithRetry(
+      url,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: options.signal,
+      },
+      response => response.json() as Promise<T>,
+      options.idempotent ?? true,
+      options.transactional
+    );
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      if (this.debug) {
-        console.error(`Error response: ${errorText}`);
+  /**
+   * Send a request, retrying transient failures according to the retry
+   * policy, and read the successful response with `read`. Otherwise the last
+   * failure is thrown as a FirestoreError. The configured timeout and
+   * `init.signal` cover all attempts and reading the response body.
+   * @param read Reads the body of the successful response
+   * @param idempotent Whether sending the request twice has the same effect
+   * as sending it once. Other requests are only retried when the server
+   * rejected them without applying them.
+   * @param transactional Whether the request is bound to a transaction, whose
+   * `ABORTED` failures are not retried
+   * @private
+   */
+  private async fetchWithRetry<T>(
+    url: string,
+    init: RequestInit & { method: string },
+    read: (response: Response) => Promise<T>,
+    idempotent: boolean,
+    transactional = false
+  ): Promise<T> {
+    const { signal, clear } = withTimeout(
+      init.signal ?? undefined,
+      this.config.timeout
+    );
+
+    try {
+      const response = await this.sendWithRetry(
+        url,
+        { ...init, signal },
+        idempotent,
+        transactional
+      );
+      // A response from a stub or an interceptor may ignore the signal
+      return await abortable(read(response), signal);
+    } catch (error) {
+      if (signal?.aborted && !(error instanceof FirestoreError)) {
+        throw createAbortError(init.method, url, signal.reason);
       }
-      const error = new Error(
-        `Firestore API error: ${
-          response.statusText || response.status
-        } - ${errorText}`
-      ) as Error & { status?: number; alreadyExists?: boolean };
-      error.status = response.status;
-      error.alreadyExists =
-        response.status === 409 || /ALREADY_EXISTS/.test(errorText);
       throw error;
+    } finally {
+      clear();
+    }
+  }
+
+  /**
+   * Send a request until it succeeds or fails for good. Aborts through
+   * `init.signal` are thrown as they are.
+   * @returns Successful response
+   * @private
+   */
+  private async sendWithRetry(
+    url: string,
+    init: RequestInit & { method: string },
+    idempotent: boolean,
+    transactional: boolean
+  ): Promise<Response> {
+    const policy = this.retryPolicy;
+    const signal = init.signal ?? undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
+      this.logger.debug("Sending request", {
+        method: init.method,
+        url,
+        headers: init.headers,
+        attempt,
+      });
+      let response: Response | undefined;
+      try {
+        response = await sendRequest(this.config, url, init);
+        this.logger.debug("Received response", {
+          method: init.method,
+          url,
+          status: response.status,
+        });
+      } catch (error) {
+        // A network failure may or may not have reached the server
+        if (signal?.aborted || !idempotent || attempt >= policy.maxAttempts) {
+          throw error;
+        }
+      }
+
+      let delay = backoffDelay(policy, attempt - 1);
+      if (response) {
+        if (response.ok) {
+          return response;
+        }
+        const error = await this.responseError(
+          init.method,
+          url,
+          response,
+          signal
+        );
+        if (
+          attempt >= policy.maxAttempts ||
+          !isRetryable(policy, error, idempotent, transactional)
+        ) {
+          throw error;
+        }
+        delay =
+          parseRetryAfter(policy, response.headers?.get("Retry-After")) ??
+          delay;
+      }
+
+      this.logger.info("Retrying request", {
+        method: init.method,
+        url,
+        delayMs: Math.round(delay),
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts,
+      });
+      // An abort during the delay is thrown at the start of the next attempt
+      await abortable(policy.clock.sleep(delay), signal).catch(() => undefined);
     }
   }
 
   /**
-   * Commit a write and read the document back, so the resolved transform
-   * values (e.g. the server timestamp) are returned to the caller.
+   * Read the body of a failed response and turn it into a FirestoreError.
+   * The read fails with the abort reason when `signal` aborts.
+   * @private
+   */
+  private async responseError(
+    method: string,
+    url: string,
+    response: Response,
+    signal: AbortSignal | undefined
+  ): Promise<FirestoreError> {
+    const errorText = await abortable(response.text(), signal);
+    this.logger.debug("Error response", {
+      method,
+      url,
+      status: response.status,
+      body: errorText,
+    });
+    return createFirestoreError(method, url, response.status, errorText);
+  }
+
+  /**
+   * Write a single document and return the server's write result. Plain
+   * writes are a single PATCH, which also returns the written document;
+   * writes with field transforms, or with an empty update mask (which PATCH
+   * query params cannot express), go through the commit endpoint instead.
+   * @returns The written document (null when committed) and the write result
    * @private
    */
-  private async commitAndRead(
+  private async writeDocument(
     collectionName: string,
     documentId: string,
     fields: Record<string, any>,
     transforms: FieldTransform[],
-    currentDocument?: { exists?: boolean; updateTime?: string }
-  ): Promise<Record<string, any> & { id: string }> {
-    await this.commit(
+    currentDocument?: { exists?: boolean; updateTime?: string },
+    updateMask?: string[],
+    signal?: AbortSignal
+  ): Promise<{ document: FirestoreResponse | null; writeResult: WriteResult }> {
+    if (transforms.length > 0 || updateMask?.length === 0) {
+      const response = await this.commit(
+        collectionName,
+        documentId,
+        fields,
+        transforms,
+        currentDocument,
+        updateMask,
+        signal
+      );
+      return { document: null, writeResult: createWriteResults(response)[0] };
+    }
+
+    const document = await this.patch(
       collectionName,
       documentId,
       fields,
-      transforms,
-      currentDocument
+      updateMask,
+      currentDocument,
+      signal
     );
-    const saved = await this.get(collectionName, documentId);
+    return {
+      document,
+      writeResult: documentWriteResult(document),
+    };
+  }
+
+  /**
+   * Read a document back after a commit, so the resolved transform values
+   * (e.g. the server timestamp) are returned to the caller.
+   * @private
+   */
+  private async readBack(
+    collectionName: string,
+    documentId: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, any> & { id: string }> {
+    const saved = await this.get(collectionName, documentId, { signal });
     if (!saved) {
       throw new Error(
         `Document ${collectionName}/${documentId} could not be read back after commit`
@@ -230,14 +823,31 @@ export class FirestoreClient {
     return saved;
   }
 
+  /**
+   * The document of a write (read back if the write went through commit),
+   * with the write result attached
+   * @private
+   */
+  private async writtenDocument(
+    collectionName: string,
+    documentId: string,
+    written: { document: FirestoreResponse | null; writeResult: WriteResult },
+    signal?: AbortSignal
+  ): Promise<WrittenDocument> {
+    const document = written.document
+      ? convertFromFirestoreDocument(written.document)
+      : await this.readBack(collectionName, documentId, signal);
+    return withWriteResult(document, written.writeResult);
+  }
+
   /**
    * Get collection reference
    * @param path Collection path
    * @returns CollectionReference instance
    */
-  collection(path: string): CollectionReference {
+  collection<T = DocumentData>(path: string): CollectionReference<T> {
     // Configuration check is performed at the time of actual operation
-    return new CollectionReference(this, path);
+    return new CollectionReference<T>(this, path);
   }
 
   /**
@@ -245,7 +855,7 @@ export class FirestoreClient {
    * @param path Document path
    * @returns DocumentReference instance
    */
-  doc(path: string): DocumentReference {
+  doc<T = DocumentData>(path: string): DocumentReference<T> {
     // Configuration check is performed at the time of actual operation
     const parts = path.split("/");
     if (parts.length % 2 !== 0) {
@@ -257,7 +867,15 @@ export class FirestoreClient {
     const collectionPath = parts.slice(0, parts.length - 1).join("/");
     const docId = parts[parts.length - 1];
 
-    return new DocumentReference(this, collectionPath, docId);
+    return new DocumentReference<T>(this, collectionPath, docId);
+  }
+
+  /**
+   * Create a write batch for applying multiple writes atomically
+   * @returns WriteBatch instance
+   */
+  batch(): WriteBatch {
+    return new WriteBatch(this);
   }
 
   /**
@@ -265,64 +883,60 @@ export class FirestoreClient {
    * @param path Collection group ID
    * @returns CollectionGroup instance
    */
-  collectionGroup(path: string): CollectionGroup {
-    return new CollectionGroup(this, path);
+  collectionGroup<T = DocumentData>(path: string): CollectionGroup<T> {
+    return new CollectionGroup<T>(this, path);
   }
 
   /**
    * Add document to Firestore
    * @param collectionName Collection name
    * @param data Data to add
-   * @returns Added document
+   * @param options `signal` to cancel the request (optional)
+   * @returns Added document, with the server's `writeResult`
    */
-  async add(collectionName: string, data: Record<string, any>) {
+  async add(
+    collectionName: string,
+    data: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<WrittenDocument> {
     // Check settings before operation
     this.checkConfig();
 
-    if (this.debug) {
-      console.log(`Adding document to collection: ${collectionName}`, data);
-    }
+    this.logger.debug("Adding document", { collectionName });
 
     // When the data contains field transforms (e.g. serverTimestamp), the
     // create must go through the commit endpoint with a client-generated ID.
     const { fields: plainData, transforms } = extractFieldTransforms(data);
     if (transforms.length > 0) {
-      return this.addWithTransforms(collectionName, plainData, transforms);
+      return this.addWithTransforms(
+        collectionName,
+        plainData,
+        transforms,
+        options.signal
+      );
     }
 
     const url = this.pathUtil.getCollectionPath(collectionName);
     const firestoreData = convertToFirestoreDocument(data);
+    const headers = await this.prepareHeaders(options.signal);
 
-    if (this.debug) {
-      console.log(`Making request to: ${url}`, firestoreData);
-    }
-
-    const headers = await this.prepareHeaders();
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(firestoreData),
-    });
-
-    if (this.debug) {
-      console.log(`Response status: ${response.status}`);
-    }
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      if (this.debug) {
-        console.error(`Error response: ${errorText}`);
-      }
-      throw new Error(
-        `Firestore API error: ${
-          response.statusText || response.status
-        } - ${errorText}`
-      );
-    }
+    // Sending the create twice would add two documents
+    const result = await this.fetchWithRetry(
+      url,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify(firestoreData),
+        signal: options.signal,
+      },
+      response => response.json() as Promise<FirestoreResponse>,
+      false
+    );
 
-    const result = (await response.json()) as FirestoreResponse;
-    return convertFromFirestoreDocument(result);
+    return withWriteResult(
+      convertFromFirestoreDocument(result),
+      documentWriteResult(result)
+    );
   }
 
   /**
@@ -335,23 +949,33 @@ export class FirestoreClient {
   private async addWithTransforms(
     collectionName: string,
     plainData: Record<string, any>,
-    transforms: FieldTransform[]
-  ) {
+    transforms: FieldTransform[],
+    signal?: AbortSignal
+  ): Promise<WrittenDocument> {
     const fields = convertToFirestoreDocument(plainData).fields;
     const maxAttempts = 5;
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       const documentId = generateAutoId();
       try {
-        return await this.commitAndRead(
+        const response = await this.commit(
           collectionName,
           documentId,
           fields,
           transforms,
-          { exists: false }
+          { exists: false },
+          undefined,
+          signal
+        );
+        return await this.writtenDocument(
+          collectionName,
+          documentId,
+          { document: null, writeResult: createWriteResults(response)[0] },
+          signal
         );
       } catch (error) {
-        const collided = (error as { alreadyExists?: boolean })?.alreadyExists;
+        const collided =
+          error instanceof FirestoreError && error.code === "ALREADY_EXISTS";
         if (collided && attempt < maxAttempts - 1) {
           continue;
         }
@@ -368,398 +992,777 @@ export class FirestoreClient {
    * Get document
    * @param collectionName Collection name
    * @param documentId Document ID
+   * @param options `transaction`: read within this transaction, `signal`:
+   * cancel the request (both optional)
    * @returns Retrieved document (null if it doesn't exist)
    */
-  async get(collectionName: string, documentId: string) {
+  async get(
+    collectionName: string,
+    documentId: string,
+    options: { transaction?: string } & RequestOptions = {}
+  ) {
+    const document = await this.getDocument(
+      collectionName,
+      documentId,
+      options
+    );
+    return document && convertFromFirestoreDocument(document);
+  }
+
+  /**
+   * Get a snapshot of the document a reference points to
+   * @param documentRef Document reference
+   * @param options `transaction`: read within this transaction, `signal`:
+   * cancel the request (both optional)
+   * @returns DocumentSnapshot instance (`exists` is false if it doesn't exist)
+   */
+  async getSnapshot<T>(
+    documentRef: DocumentReference<T>,
+    options: { transaction?: string } & RequestOptions = {}
+  ): Promise<DocumentSnapshot<T>> {
+    const document = await this.getDocument(
+      documentRef.parent.path,
+      documentRef.id,
+      options
+    );
+    return new DocumentSnapshot(
+      documentRef,
+      document && convertFromFirestoreDocument(document),
+      snapshotMetadata(document)
+    );
+  }
+
+  /**
+   * Fetch a document as returned by the API
+   * @private
+   */
+  private async getDocument(
+    collectionName: string,
+    documentId: string,
+    options: { transaction?: string } & RequestOptions
+  ): Promise<FirestoreResponse | null> {
     // Check settings before operation
     this.checkConfig();
 
-    if (this.debug) {
-      console.log(
-        `Getting document from collection: ${collectionName}, documentId: ${documentId}`
-      );
-    }
-
-    const url = this.pathUtil.getDocumentPath(collectionName, documentId);
+    this.logger.debug("Getting document", { collectionName, documentId });
 
-    if (this.debug) {
-      console.log(`Making request to: ${url}`);
+    let url = this.pathUtil.getDocumentPath(collectionName, documentId);
+    if (options.transaction) {
+      url += `?transaction=${encodeURIComponent(options.transaction)}`;
     }
 
-    const headers = await this.prepareHeaders();
+    const headers = await this.prepareHeaders(options.signal);
 
     try {
-      const response = await fetch(url, {
-        method: "GET",
-        headers,
-      });
-
-      if (this.debug) {
-        console.log(`Response status: ${response.status}`);
-      }
-
-      // Capture response text for debugging
-      const responseText = await response.text();
-      if (this.debug) {
-        console.log(
-          `Response text: ${responseText.substring(0, 200)}${
-            responseText.length > 200 ? "..." : ""
-          }`
-        );
-      }
-
-      if (response.status === 404) {
+      return await this.fetchWithRetry(
+        url,
+        { method: "GET", headers, signal: options.signal },
+        async response =>
+          JSON.parse(await response.text()) as FirestoreResponse,
+        true,
+        !!options.transaction
+      );
+    } catch (error) {
+      if (error instanceof FirestoreError && error.code === "NOT_FOUND") {
         return null;
       }
-
-      if (!response.ok) {
-        throw new Error(
-          `Firestore API error: ${
-            response.statusText || response.status
-          } - ${responseText}`
-        );
-      }
-
-      // Parse the response text
-      const result = JSON.parse(responseText) as FirestoreResponse;
-      return convertFromFirestoreDocument(result);
-    } catch (error) {
-      console.error("Error in get method:", error);
       throw error;
     }
   }
 
   /**
-   * Update document
-   * @param collectionName Collection name
+   * Get multiple documents in a single `documents:batchGet` request. Options
+   * may be passed as the last argument.
+   * @param documentRefsOrOptions Document references, optionally followed by
+   *   read options (`fieldMask`, `transaction`, `readTime`, `signal`)
+   * @returns One DocumentSnapshot per reference, in the requested order
+   * (`exists` is false for missing documents)
+   *
+   * @example
+   * const [alice, bob] = await client.getAll(
+   *   client.doc("users/alice"),
+   *   client.doc("users/bob"),
+   *   { fieldMask: ["name"] }
+   * );
+   */
+  async getAll<T = DocumentData>(
+    ...documentRefsOrOptions: Array<DocumentReference<T> | ReadOptions>
+  ): Promise<DocumentSnapshot<T>[]> {
+    const last = documentRefsOrOptions[documentRefsOrOptions.length - 1];
+    const hasOptions =
+      last !== undefined && !(last instanceof DocumentReference);
+    const options = (hasOptions ? last : {}) as ReadOptions;
+    const documentRefs = (
+      hasOptions ? documentRefsOrOptions.slice(0, -1) : documentRefsOrOptions
+    ) as DocumentReference<T>[];
+
+    if (documentRefs.length === 0) {
+      throw new Error("getAll() requires at least one document reference.");
+    }
+
+    const url = `${this.pathUtil.getBasePath()}:batchGet`;
+    const names = documentRefs.map(ref => ref.referenceValue);
+    const body: Record<string, any> = {
+      documents: Array.from(new Set(names)),
+    };
+    if (options.fieldMask) {
+      body.mask = { fieldPaths: options.fieldMask };
+    }
+    if (options.transaction) {
+      body.transaction = options.transaction;
+    }
+    if (options.readTime) {
+      body.readTime = formatTimestamp(options.readTime);
+    }
+
+    this.logger.debug("Batch getting documents", { url, count: names.length });
+
+    // Results arrive in no particular order, so match them up by name
+    const results = await this.post<
+      Array<{ found?: FirestoreResponse; missing?: string; readTime?: string }>
+    >(url, body, {
+      signal: options.signal,
+      transactional: !!options.transaction,
+    });
+    const resultsByName = new Map(
+      results.map(result => [result.found?.name ?? result.missing, result])
+    );
+
+    return documentRefs.map(ref => {
+      const { found, readTime } = resultsByName.get(ref.referenceValue) ?? {};
+      return new DocumentSnapshot(
+        ref,
+        found ? convertFromFirestoreDocument(found) : null,
+        snapshotMetadata(found, readTime)
+      );
+    });
+  }
+
+  /**
+   * Update fields of an existing document. Keys may be dot-separated field
+   * paths (e.g. `"favorites.color"`); only the named fields are written, in a
+   * single request with an update mask, and all other fields are left
+   * untouched. Fails with NOT_FOUND if the document does not exist.
+   * @param collectionName Collection name
    * @param documentId Document ID
    * @param data Data to update
-   * @returns Updated document
+   * @param options `signal` to cancel the request (optional)
+   * @returns Updated document, with the server's `writeResult`
    */
   async update(
     collectionName: string,
     documentId: string,
-    data: Record<string, any>
+    data: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<WrittenDocument> {
+    const written = await this.writeUpdate(
+      collectionName,
+      documentId,
+      data,
+      options
+    );
+    return this.writtenDocument(
+      collectionName,
+      documentId,
+      written,
+      options.signal
+    );
+  }
+
+  /**
+   * Like update(), but resolves to the server's write result instead of the
+   * updated document. Used by DocumentReference.
+   * @param collectionName Collection name
+   * @param documentId Document ID
+   * @param data Data to update
+   * @param options Precondition (the document must exist by default) and
+   * `signal` to cancel the request
+   * @returns WriteResult with the server's write time
+   */
+  async updateDocument(
+    collectionName: string,
+    documentId: string,
+    data: Record<string, any>,
+    options: Precondition & RequestOptions = {}
+  ): Promise<WriteResult> {
+    const { writeResult } = await this.writeUpdate(
+      collectionName,
+      documentId,
+      data,
+      options
+    );
+    return writeResult;
+  }
+
+  /**
+   * Validate and send an update (see update())
+   * @private
+   */
+  private async writeUpdate(
+    collectionName: string,
+    documentId: string,
+    data: Record<string, any>,
+    options: Precondition & RequestOptions = {}
   ) {
     // Check settings before operation
     this.checkConfig();
 
-    if (this.debug) {
-      console.log(
-        `Updating document in collection: ${collectionName}, documentId: ${documentId}`,
-        data
-      );
-    }
-
-    const url = this.pathUtil.getDocumentPath(collectionName, documentId);
+    this.logger.debug("Updating document", { collectionName, documentId });
 
-    if (this.debug) {
-      console.log(`Making request to: ${url}`);
+    if (Object.keys(data).length === 0) {
+      throw new Error("At least one field must be updated.");
     }
 
-    // Get existing document and merge
-    const existingDoc = await this.get(collectionName, documentId);
-    if (existingDoc) {
-      // Check for nested fields
-      // Check if data contains dot notation keys (e.g., "favorites.color")
-      const updateData = { ...data };
-      const dotNotationKeys = Object.keys(data).filter(key =>
-        key.includes(".")
-      );
-
-      if (dotNotationKeys.length > 0) {
-        // スプレッド演算子でコピーして元のオブジェクトを変更しないようにする
-        const result = { ...existingDoc };
-
-        // 通常のキーを先に適用
-        Object.keys(data)
-          .filter(key => !key.includes("."))
-          .forEach(key => {
-            result[key] = data[key];
-          });
+    // Dot-notation keys become nested fields plus an update mask entry
+    const { data: nested, fieldPaths } = expandFieldPaths(data);
+    const { fields: plainData, transforms } = extractFieldTransforms(
+      nested,
+      "",
+      true
+    );
+    const fields = convertToFirestoreDocument(plainData).fields;
 
-        // ドット記法のキーを処理
-        dotNotationKeys.forEach(path => {
-          const parts = path.split(".");
-          let current = result;
-
-          // 最後のパーツ以外をたどってネストしたオブジェクトに到達
-          for (let i = 0; i < parts.length - 1; i++) {
-            const part = parts[i];
-            // パスが存在しない場合は新しいオブジェクトを作成
-            if (!current[part] || typeof current[part] !== "object") {
-              current[part] = {};
-            }
-            current = current[part];
-          }
-
-          // 最後のパーツに値を設定
-          const lastPart = parts[parts.length - 1];
-          current[lastPart] = data[path];
-
-          // 元のデータからドット記法のキーを削除
-          delete updateData[path];
-        });
+    // Writes that contain field transforms (e.g. serverTimestamp) go through
+    // the commit endpoint, with the same mask and precondition.
+    return this.writeDocument(
+      collectionName,
+      documentId,
+      fields,
+      transforms,
+      convertToFirestorePrecondition(options) ?? { exists: true },
+      fieldPaths,
+      options.signal
+    );
+  }
 
-        data = result;
-      } else {
-        // 通常のマージ
-        data = { ...existingDoc, ...data };
-      }
+  /**
+   * PATCH a document, optionally limited to an update mask and guarded by a
+   * precondition
+   * @param collectionName Collection name
+   * @param documentId Document ID
+   * @param fields Already-converted Firestore field values
+   * @param updateMask Field paths to update (whole document if omitted)
+   * @param currentDocument Optional precondition (e.g. `{ exists: true }`)
+   * @returns Written document, as returned by the API
+   * @private
+   */
+  private async patch(
+    collectionName: string,
+    documentId: string,
+    fields: Record<string, any>,
+    updateMask?: string[],
+    currentDocument?: { exists?: boolean; updateTime?: string },
+    signal?: AbortSignal
+  ): Promise<FirestoreResponse> {
+    const params = new URLSearchParams();
+    updateMask?.forEach(fieldPath =>
+      params.append("updateMask.fieldPaths", fieldPath)
+    );
+    if (currentDocument?.exists !== undefined) {
+      params.append("currentDocument.exists", String(currentDocument.exists));
     }
-
-    // Route writes that contain field transforms (e.g. serverTimestamp)
-    // through the commit endpoint; the merged document is sent as the update.
-    const { fields: plainData, transforms } = extractFieldTransforms(data);
-    if (transforms.length > 0) {
-      const fields = convertToFirestoreDocument(plainData).fields;
-      return this.commitAndRead(collectionName, documentId, fields, transforms);
+    if (currentDocument?.updateTime) {
+      params.append("currentDocument.updateTime", currentDocument.updateTime);
     }
+    const query = params.toString();
+    const url = `${this.pathUtil.getDocumentPath(collectionName, documentId)}${
+      query ? `?${query}` : ""
+    }`;
+
+    // Writing twice leaves the same state, so a write can be retried unless
+    // its precondition could fail because the first attempt was applied
+    const idempotent =
+      !currentDocument?.updateTime && currentDocument?.exists !== false;
+    const headers = await this.prepareHeaders(signal);
+    return this.fetchWithRetry(
+      url,
+      { method: "PATCH", headers, body: JSON.stringify({ fields }), signal },
+      response => response.json() as Promise<FirestoreResponse>,
+      idempotent
+    );
+  }
 
-    const firestoreData = convertToFirestoreDocument(data);
-
-    const headers = await this.prepareHeaders();
-    const response = await fetch(url, {
-      method: "PATCH",
-      headers,
-      body: JSON.stringify(firestoreData),
+  /**
+   * Delete document
+   * @param collectionName Collection name
+   * @param documentId Document ID
+   * @param options `signal` to cancel the request (optional)
+   * @returns WriteResult with the server's write time
+   */
+  async delete(
+    collectionName: string,
+    documentId: string,
+    options: RequestOptions = {}
+  ): Promise<WriteResult> {
+    return this.deleteDocument(collectionName, documentId, {
+      signal: options.signal,
     });
+  }
 
-    if (this.debug) {
-      console.log(`Response status: ${response.status}`);
-    }
+  /**
+   * Delete a document through the commit endpoint, which (unlike DELETE)
+   * reports the server's write time. Used by delete() and DocumentReference.
+   * @param collectionName Collection name
+   * @param documentId Document ID
+   * @param options Precondition and `signal` to cancel the request (optional)
+   * @returns WriteResult with the server's write time
+   */
+  async deleteDocument(
+    collectionName: string,
+    documentId: string,
+    options: Precondition & RequestOptions = {}
+  ): Promise<WriteResult> {
+    this.logger.debug("Deleting document", { collectionName, documentId });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      if (this.debug) {
-        console.error(`Error response: ${errorText}`);
-      }
-      throw new Error(
-        `Firestore API error: ${
-          response.statusText || response.status
-        } - ${errorText}`
-      );
-    }
+    const documentName = this.pathUtil.getParentReference(
+      `${collectionName}/${documentId}`
+    );
+    const currentDocument = convertToFirestorePrecondition(options);
+    const url = `${this.pathUtil.getBasePath()}:commit`;
 
-    const result = (await response.json()) as FirestoreResponse;
-    return convertFromFirestoreDocument(result);
+    // Deleting twice leaves the same state, so a delete can be retried
+    // unless a precondition could fail on the second attempt
+    const response = await this.post<CommitResponse>(
+      url,
+      { writes: [buildDeleteWrite(documentName, currentDocument)] },
+      { signal: options.signal, idempotent: !currentDocument }
+    );
+    return createWriteResults(response)[0];
   }
 
   /**
-   * Delete document
-   * @param collectionName Collection name
-   * @param documentId Document ID
-   * @returns true if deletion successful
+   * Build the `structuredQuery` of a runQuery / runAggregationQuery request
+   * @param collectionPath Collection path
+   * @param options Query options
+   * @param allDescendants Whether to include descendant collections
+   * @returns Structured query
+   * @private
    */
-  async delete(collectionName: string, documentId: string) {
-    // Check settings before operation
-    this.checkConfig();
+  private buildStructuredQuery(
+    collectionPath: string,
+    options: QueryOptions,
+    allDescendants: boolean
+  ): any {
+    // Parse the collection path
+    const segments = collectionPath.split("/");
+    const collectionId = segments[segments.length - 1];
+
+    const structuredQuery: any = {
+      from: [
+        {
+          collectionId,
+          allDescendants,
+        },
+      ],
+    };
 
-    if (this.debug) {
-      console.log(
-        `Deleting document from collection: ${collectionName}, documentId: ${documentId}`
-      );
+    // Add projection if present (an empty list returns document names only)
+    if (options.select) {
+      const fieldPaths =
+        options.select.length > 0 ? options.select : ["__name__"];
+      structuredQuery.select = {
+        fields: fieldPaths.map(fieldPath => ({ fieldPath })),
+      };
     }
 
-    const url = this.pathUtil.getDocumentPath(collectionName, documentId);
+    // Add where filters if present (multiple entries are ANDed)
+    if (options.where && options.where.length > 0) {
+      const filters = options.where.map(filter =>
+        filter instanceof Filter
+          ? filter
+          : Filter.where(filter.field, filter.op, filter.value)
+      );
+      structuredQuery.where = convertToFirestoreFilter(Filter.and(...filters));
+    }
 
-    if (this.debug) {
-      console.log(`Making request to: ${url}`);
+    // Add order by if present
+    let orderBy = normalizeOrderings(options).map(ordering => ({
+      field: { fieldPath: ordering.field },
+      direction: ordering.direction || "ASCENDING",
+    }));
+
+    // Cursors built from a snapshot end with the document name, which needs
+    // a matching __name__ ordering
+    const cursorLength = Math.max(
+      options.startAt?.values.length ?? 0,
+      options.endAt?.values.length ?? 0
+    );
+    if (cursorLength > orderBy.length) {
+      orderBy.push({
+        field: { fieldPath: "__name__" },
+        direction: orderBy[orderBy.length - 1]?.direction ?? "ASCENDING",
+      });
     }
 
-    // Different header handling for emulator
-    const headers: Record<string, string> = {};
+    let { startAt, endAt, limit } = options;
 
-    // Only add auth token for production environment
-    if (!this.config.useEmulator) {
-      const token = await this.getToken();
-      headers["Authorization"] = `Bearer ${token}`;
+    // limitToLast runs the query in reverse order (swapping the cursors);
+    // query() reverses the results back
+    if (options.limitToLast) {
+      if (orderBy.length === 0) {
+        throw new Error(
+          "limitToLast() queries require specifying at least one orderBy() clause."
+        );
+      }
+      orderBy = orderBy.map(ordering => ({
+        ...ordering,
+        direction:
+          ordering.direction === "DESCENDING" ? "ASCENDING" : "DESCENDING",
+      }));
+      [startAt, endAt] = [
+        options.endAt && { ...options.endAt, before: !options.endAt.before },
+        options.startAt && {
+          ...options.startAt,
+          before: !options.startAt.before,
+        },
+      ];
+      limit = options.limitToLast;
     }
 
-    const response = await fetch(url, {
-      method: "DELETE",
-      headers,
-    });
-
-    if (this.debug) {
-      console.log(`Response status: ${response.status}`);
+    if (orderBy.length > 0) {
+      structuredQuery.orderBy = orderBy;
     }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      if (this.debug) {
-        console.error(`Error response: ${errorText}`);
+    // Add cursors if present
+    for (const [key, cursor] of [
+      ["startAt", startAt],
+      ["endAt", endAt],
+    ] as const) {
+      if (cursor) {
+        structuredQuery[key] = {
+          values: cursor.values.map(value => convertToFirestoreValue(value)),
+          before: cursor.before,
+        };
       }
-      throw new Error(
-        `Firestore API error: ${
-          response.statusText || response.status
-        } - ${errorText}`
-      );
     }
 
-    return true;
+    // Add limit if present
+    if (limit) {
+      structuredQuery.limit = limit;
+    }
+
+    // Add offset if present
+    if (options.offset) {
+      structuredQuery.offset = options.offset;
+    }
+
+    return structuredQuery;
   }
 
   /**
    * Query documents in a collection
    * @param collectionPath Collection path
-   * @param options Query options
+   * @param options Query options, and `signal` to cancel the request
    * @param allDescendants Whether to include descendant collections
    * @returns Array of documents matching the query
    */
   async query(
     collectionPath: string,
-    options: QueryOptions = {},
+    options: QueryOptions & RequestOptions = {},
     allDescendants: boolean = false
   ) {
+    const results = await this.queryDocuments(
+      collectionPath,
+      options,
+      allDescendants
+    );
+    return results.map(({ document }) =>
+      convertFromFirestoreDocument(document)
+    );
+  }
+
+  /**
+   * Query documents in a collection, keeping the documents as returned by the
+   * API (full names and timestamps) along with their read time
+   * @param collectionPath Collection path
+   * @param options Query options, and `signal` to cancel the request
+   * @param allDescendants Whether to include descendant collections
+   * @returns runQuery response items of the matching documents
+   */
+  async queryDocuments(
+    collectionPath: string,
+    options: QueryOptions & RequestOptions = {},
+    allDescendants: boolean = false
+  ): Promise<Array<RunQueryResponseItem & { document: FirestoreResponse }>> {
     // Check settings before operation
     this.checkConfig();
 
-    try {
-      // Parse the collection path
-      const segments = collectionPath.split("/");
-      const collectionId = segments[segments.length - 1];
-
-      // Get the proper runQuery URL from our path helper
-      const queryUrl = this.pathUtil.getRunQueryPath(collectionPath);
+    // Get the proper runQuery URL from our path helper
+    const queryUrl = this.pathUtil.getRunQueryPath(collectionPath);
 
-      if (this.debug) {
-        console.log(`Executing query on collection: ${collectionPath}`);
-        console.log(`Using runQuery URL: ${queryUrl}`);
-      }
+    // Create the structured query
+    const requestBody = {
+      structuredQuery: this.buildStructuredQuery(
+        collectionPath,
+        options,
+        allDescendants
+      ),
+    };
 
-      // Create the structured query
-      const requestBody: any = {
-        structuredQuery: {
-          from: [
-            {
-              collectionId,
-              allDescendants,
-            },
-          ],
-        },
-      };
+    this.logger.debug("Executing query", {
+      collectionPath,
+      url: queryUrl,
+      structuredQuery: requestBody.structuredQuery,
+    });
 
-      // Add where filters if present
-      if (options.where && options.where.length > 0) {
-        // Map our operators to Firestore REST API operators
-        const opMap: Record<string, string> = {
-          "==": "EQUAL",
-          "!=": "NOT_EQUAL",
-          "<": "LESS_THAN",
-          "<=": "LESS_THAN_OR_EQUAL",
-          ">": "GREATER_THAN",
-          ">=": "GREATER_THAN_OR_EQUAL",
-          "array-contains": "ARRAY_CONTAINS",
-          in: "IN",
-          "array-contains-any": "ARRAY_CONTAINS_ANY",
-          "not-in": "NOT_IN",
-        };
+    // Use the existing prepareHeaders method for authentication consistency
+    const headers = await this.prepareHeaders(options.signal);
 
-        // Single where clause
-        if (options.where.length === 1) {
-          const filter = options.where[0];
-          const firestoreOp = opMap[filter.op] || filter.op;
-
-          requestBody.structuredQuery.where = {
-            fieldFilter: {
-              field: { fieldPath: filter.field },
-              op: firestoreOp,
-              value: convertToFirestoreValue(filter.value),
-            },
-          };
-        }
-        // Multiple where clauses (AND)
-        else {
-          requestBody.structuredQuery.where = {
-            compositeFilter: {
-              op: "AND",
-              filters: options.where.map(filter => {
-                const firestoreOp = opMap[filter.op] || filter.op;
-                return {
-                  fieldFilter: {
-                    field: { fieldPath: filter.field },
-                    op: firestoreOp,
-                    value: convertToFirestoreValue(filter.value),
-                  },
-                };
-              }),
-            },
-          };
-        }
-      }
+    const results = await this.fetchWithRetry(
+      queryUrl,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: options.signal,
+      },
+      async response => JSON.parse(await response.text()),
+      true
+    );
 
-      // Add order by if present
-      if (options.orderBy) {
-        requestBody.structuredQuery.orderBy = [
-          {
-            field: { fieldPath: options.orderBy },
-            direction: options.orderDirection || "ASCENDING",
-          },
-        ];
-      }
+    this.logger.debug("Query results", {
+      collectionPath,
+      count: Array.isArray(results) ? results.length : 0,
+    });
 
-      // Add limit if present
-      if (options.limit) {
-        requestBody.structuredQuery.limit = options.limit;
-      }
+    // Process the results
+    if (!Array.isArray(results)) {
+      return [];
+    }
 
-      // Add offset if present
-      if (options.offset) {
-        requestBody.structuredQuery.offset = options.offset;
-      }
+    const documents = results.filter(item => item.document);
 
-      if (this.debug) {
-        console.log(`Request payload:`, JSON.stringify(requestBody, null, 2));
-      }
+    if (options.limitToLast) {
+      documents.reverse();
+    }
 
-      // Use the existing prepareHeaders method for authentication consistency
-      const headers = await this.prepareHeaders();
+    return documents;
+  }
+  /**
+   * Stream the documents matching a query. The runQuery response is parsed
+   * incrementally, and the query is run in pages of `pageSize` documents,
+   * each continuing after the last document of the previous page, so scans of
+   * any size use bounded memory. Pages are ordered by `__name__` after the
+   * query's own orderings. Ordered fields outside a projection are fetched
+   * to continue from, but removed from the yielded documents.
+   * @param collectionPath Collection path
+   * @param options Query options, and `signal` to cancel the requests
+   * @param allDescendants Whether to include descendant collections
+   * @param pageSize Maximum number of documents per request
+   * @returns Async generator over the runQuery response items of the
+   * matching documents
+   */
+  async *streamQuery(
+    collectionPath: string,
+    options: QueryOptions & RequestOptions = {},
+    allDescendants: boolean = false,
+    pageSize: number = DEFAULT_STREAM_PAGE_SIZE
+  ): AsyncGenerator<RunQueryResponseItem & { document: FirestoreResponse }> {
+    if (options.limitToLast) {
+      throw new Error("stream() does not support limitToLast() queries.");
+    }
+    if (!(pageSize > 0)) {
+      throw new Error("pageSize must be a positive number.");
+    }
 
-      const response = await fetch(queryUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(requestBody),
+    // Order by __name__ last so a page can continue after its last document
+    const orderings = [...normalizeOrderings(options)];
+    if (!orderings.some(ordering => ordering.field === "__name__")) {
+      orderings.push({
+        field: "__name__",
+        direction: orderings[orderings.length - 1]?.direction ?? "ASCENDING",
       });
-
-      // Collect response for debugging
-      const responseText = await response.text();
-
-      if (this.debug) {
-        console.log(`API Response:`, responseText);
+    }
+    const orderedFields = orderings
+      .map(ordering => ordering.field)
+      .filter(field => field !== "__name__");
+    // Ordered fields outside the projection are only fetched to continue from
+    const selected = (options.select ?? []).map(parseFieldPath);
+    const extraFields = options.select
+      ? orderedFields.filter(field => {
+          const names = parseFieldPath(field);
+          return !selected.some(prefix =>
+            prefix.every((name, i) => name === names[i])
+          );
+        })
+      : [];
+    const select = options.select && [...options.select, ...extraFields];
+
+    const url = this.pathUtil.getRunQueryPath(collectionPath);
+    let remaining = options.limit;
+    let startAt = options.startAt;
+    let offset = options.offset;
+    // Position after the last document of the previous page, in API form
+    let continuation:
+      { values: FirestoreFieldValue[]; before: boolean } | undefined;
+
+    while (true) {
+      const limit =
+        remaining === undefined ? pageSize : Math.min(pageSize, remaining);
+      const structuredQuery = this.buildStructuredQuery(
+        collectionPath,
+        { ...options, orderBy: orderings, select, startAt, offset, limit },
+        allDescendants
+      );
+      if (continuation) {
+        structuredQuery.startAt = continuation;
       }
 
-      if (!response.ok) {
-        throw new Error(
-          `Firestore API error: ${response.status} - ${responseText}`
+      let count = 0;
+      let last: FirestoreResponse | undefined;
+      for await (const item of this.fetchQueryResults(
+        url,
+        structuredQuery,
+        options.signal
+      )) {
+        if (!item.document) {
+          continue;
+        }
+        count++;
+        last = item.document;
+        const fields = extraFields.reduce(
+          (fields, field) => deleteFirestoreField(fields, field),
+          item.document.fields ?? {}
         );
+        yield {
+          document: extraFields.length
+            ? { ...item.document, fields }
+            : item.document,
+          readTime: item.readTime,
+        };
       }
 
-      // Parse the response
-      const results = JSON.parse(responseText);
-
-      if (this.debug) {
-        console.log(`Results count: ${results?.length || 0}`);
+      if (remaining !== undefined) {
+        remaining -= count;
       }
-
-      // Process the results
-      if (!Array.isArray(results)) {
-        return [];
+      if (!last || count < limit || remaining === 0) {
+        return;
       }
 
-      const convertedResults = results
-        .filter(item => item.document)
-        .map(item => convertFromFirestoreDocument(item.document));
+      // The stored values, as converting them would lose e.g. microseconds
+      const { name, fields } = last;
+      continuation = {
+        values: orderings.map(({ field }) =>
+          field === "__name__"
+            ? { referenceValue: name }
+            : (getFirestoreField(fields, field) ?? { nullValue: null })
+        ),
+        before: false,
+      };
+      startAt = undefined;
+      offset = undefined;
+    }
+  }
 
-      if (this.debug) {
-        console.log(`Converted results:`, convertedResults);
-      }
+  /**
+   * Run a structured query and parse the streamed response incrementally
+   * @param url runQuery URL
+   * @param structuredQuery Structured query
+   * @param signal Abort signal (optional)
+   * @returns Async generator over the runQuery response items
+   * @private
+   */
+  private async *fetchQueryResults(
+    url: string,
+    structuredQuery: any,
+    signal?: AbortSignal
+  ): AsyncGenerator<RunQueryResponseItem> {
+    // Check settings before operation
+    this.checkConfig();
 
-      return convertedResults;
+    this.logger.debug("Streaming query", { url });
+
+    const headers = await this.prepareHeaders(signal);
+    const init = {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ structuredQuery }),
+    };
+    // The timeout and the signal cover the whole stream, like one body read
+    const request = withTimeout(signal, this.config.timeout);
+
+    try {
+      const response = await this.sendWithRetry(
+        url,
+        { ...init, signal: request.signal },
+        true,
+        false
+      );
+      // Fall back to buffering when the runtime exposes no body stream
+      if (!response.body) {
+        yield* JSON.parse(await abortable(response.text(), request.signal));
+        return;
+      }
+      yield* parseJsonArrayStream(response.body);
     } catch (error) {
-      console.error("Query execution error:", error);
+      if (request.signal?.aborted && !(error instanceof FirestoreError)) {
+        throw createAbortError(init.method, url, request.signal.reason);
+      }
       throw error;
+    } finally {
+      request.clear();
+    }
+  }
+
+  /**
+   * Compute aggregations (count / sum / average) over the documents matching
+   * a query on the server, without downloading them
+   * @param collectionPath Collection path
+   * @param options Query options, and `signal` to cancel the request
+   * @param aggregations Aggregations keyed by alias
+   * @param allDescendants Whether to include descendant collections
+   * @returns Aggregated values keyed by alias, and the time they were read
+   */
+  async runAggregationQuery(
+    collectionPath: string,
+    options: QueryOptions & RequestOptions,
+    aggregations: AggregateSpec,
+    allDescendants: boolean = false
+  ): Promise<{ data: Record<string, any>; readTime?: Date }> {
+    const aliases = Object.keys(aggregations);
+    if (aliases.length === 0) {
+      throw new Error("aggregate() requires at least one aggregation.");
+    }
+
+    // Aggregations are run against the same parent as runQuery
+    const url = this.pathUtil
+      .getRunQueryPath(collectionPath)
+      .replace(/:runQuery$/, ":runAggregationQuery");
+    const results = await this.post<
+      Array<{
+        result?: { aggregateFields?: Record<string, FirestoreFieldValue> };
+        readTime?: string;
+      }>
+    >(
+      url,
+      {
+        structuredAggregationQuery: {
+          // A projection has no effect on aggregations
+          structuredQuery: this.buildStructuredQuery(
+            collectionPath,
+            { ...options, select: undefined },
+            allDescendants
+          ),
+          aggregations: aliases.map(alias =>
+            convertToFirestoreAggregation(alias, aggregations[alias])
+          ),
+        },
+      },
+      { signal: options.signal }
+    );
+
+    const item = results.find(result => result.result) ?? results[0];
+    const fields = item?.result?.aggregateFields ?? {};
+    const data: Record<string, any> = {};
+    for (const alias of aliases) {
+      data[alias] =
+        alias in fields ? convertFromFirestoreValue(fields[alias]) : null;
     }
+
+    return {
+      data,
+      readTime: toDate(item?.readTime),
+    };
   }
 
   /**
@@ -767,13 +1770,39 @@ export class FirestoreClient {
    * @param collectionName コレクション名
    * @param documentId ドキュメントID
    * @param data ドキュメントデータ
-   * @returns 作成されたドキュメントのリファレンス
+   * @param options `signal` to cancel the request (optional)
+   * @returns 作成されたドキュメント (with the server's `writeResult`)
    */
   async createWithId(
     collectionName: string,
     documentId: string,
-    data: Record<string, any>
-  ) {
+    data: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<WrittenDocument> {
+    const written = await this.writeWithId(
+      collectionName,
+      documentId,
+      data,
+      options.signal
+    );
+    return this.writtenDocument(
+      collectionName,
+      documentId,
+      written,
+      options.signal
+    );
+  }
+
+  /**
+   * Send a create-or-overwrite write (see createWithId())
+   * @private
+   */
+  private async writeWithId(
+    collectionName: string,
+    documentId: string,
+    data: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<{ document: FirestoreResponse | null; writeResult: WriteResult }> {
     // 操作前に設定をチェック
     this.checkConfig();
 
@@ -782,7 +1811,15 @@ export class FirestoreClient {
     const { fields: plainData, transforms } = extractFieldTransforms(data);
     if (transforms.length > 0) {
       const fields = convertToFirestoreDocument(plainData).fields;
-      return this.commitAndRead(collectionName, documentId, fields, transforms);
+      return this.writeDocument(
+        collectionName,
+        documentId,
+        fields,
+        transforms,
+        undefined,
+        undefined,
+        signal
+      );
     }
 
     const url = `${getFirestoreBasePath(
@@ -793,41 +1830,143 @@ export class FirestoreClient {
 
     const firestoreData = convertToFirestoreDocument(data);
 
-    const headers = await this.prepareHeaders();
-    const response = await fetch(url, {
-      method: "PATCH",
-      headers,
-      body: JSON.stringify(firestoreData),
-    });
+    const headers = await this.prepareHeaders(signal);
+    const document = await this.fetchWithRetry(
+      url,
+      {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify(firestoreData),
+        signal,
+      },
+      response => response.json() as Promise<FirestoreResponse>,
+      true
+    );
+
+    return {
+      document,
+      writeResult: documentWriteResult(document),
+    };
+  }
+
+  /**
+   * Create or overwrite a document, or merge into an existing one with the
+   * `merge` / `mergeFields` options. This is always a single write; the
+   * document is not read first.
+   * @param collectionName Collection name
+   * @param documentId Document ID
+   * @param data Document data
+   * @param options Set options (`merge` / `mergeFields`, a precondition) and
+   * `signal` to cancel the request
+   * @returns Written document, with the server's `writeResult`
+   */
+  async set(
+    collectionName: string,
+    documentId: string,
+    data: Record<string, any>,
+    options: SetOptions & RequestOptions = {}
+  ): Promise<WrittenDocument> {
+    const written = await this.writeSet(
+      collectionName,
+      documentId,
+      data,
+      options
+    );
+    return this.writtenDocument(
+      collectionName,
+      documentId,
+      written,
+      options.signal
+    );
+  }
+
+  /**
+   * Like set(), but resolves to the server's write result instead of the
+   * written document. Used by DocumentReference.
+   * @param collectionName Collection name
+   * @param documentId Document ID
+   * @param data Document data
+   * @param options Set options (`merge` / `mergeFields`, a precondition) and
+   * `signal` to cancel the request
+   * @returns WriteResult with the server's write time
+   */
+  async setDocument(
+    collectionName: string,
+    documentId: string,
+    data: Record<string, any>,
+    options: SetOptions & RequestOptions = {}
+  ): Promise<WriteResult> {
+    const { writeResult } = await this.writeSet(
+      collectionName,
+      documentId,
+      data,
+      options
+    );
+    return writeResult;
+  }
+
+  /**
+   * Prepare and send a set (see set())
+   * @private
+   */
+  private async writeSet(
+    collectionName: string,
+    documentId: string,
+    data: Record<string, any>,
+    options: SetOptions & RequestOptions
+  ) {
+    const merge = Boolean(options.merge || options.mergeFields);
+    const currentDocument = convertToFirestorePrecondition(options);
+    if (!merge && !currentDocument) {
+      return this.writeWithId(collectionName, documentId, data, options.signal);
+    }
 
-    if (!response.ok) {
-      throw new Error(`Firestore API error: ${response.statusText}`);
+    // Check settings before operation
+    this.checkConfig();
+
+    if (merge) {
+      this.logger.debug("Merging document", { collectionName, documentId });
     }
 
-    const result = (await response.json()) as FirestoreResponse;
-    return convertFromFirestoreDocument(result);
+    // Without merge options there is no mask and the document is replaced;
+    // an empty mask goes through commit (see writeDocument())
+    const { fields, transforms, updateMask } = prepareSetWrite(data, options);
+    return this.writeDocument(
+      collectionName,
+      documentId,
+      fields,
+      transforms,
+      currentDocument,
+      updateMask,
+      options.signal
+    );
   }
 }
 
 /**
  * Collection reference class
  */
-export class CollectionReference {
+export class CollectionReference<T = DocumentData> {
   private client: FirestoreClient;
   private _path: string;
-  private _queryConstraints: {
-    where: Array<{ field: string; op: string; value: any }>;
-    orderBy?: string;
-    orderDirection?: string;
-    limit?: number;
-    offset?: number;
-  };
+  private _queryConstraints: QueryConstraints;
+
+  /**
+   * Converter applied to documents of this collection (null for plain data)
+   */
+  readonly converter: FirestoreDataConverter<T> | null;
 
-  constructor(client: FirestoreClient, path: string) {
+  constructor(
+    client: FirestoreClient,
+    path: string,
+    converter: FirestoreDataConverter<T> | null = null
+  ) {
     this.client = client;
     this._path = path;
+    this.converter = converter;
     this._queryConstraints = {
       where: [],
+      orderBy: [],
     };
   }
 
@@ -850,153 +1989,269 @@ export class CollectionReference {
    * @param documentPath Document ID (auto-generated if omitted)
    * @returns DocumentReference instance
    */
-  doc(documentPath?: string): DocumentReference {
+  doc(documentPath?: string): DocumentReference<T> {
     const docId = documentPath || this._generateId();
-    return new DocumentReference(this.client, this.path, docId);
+    return new DocumentReference(this.client, this.path, docId, this.converter);
   }
 
   /**
    * Add document (ID is auto-generated)
    * @param data Document data
+   * @param options `signal` to cancel the request (optional)
    * @returns Reference to the created document
    */
-  async add(data: Record<string, any>): Promise<DocumentReference> {
-    const result = await this.client.add(this.path, data);
+  async add(
+    data: T,
+    options: RequestOptions = {}
+  ): Promise<DocumentReference<T>> {
+    const result = await this.client.add(
+      this.path,
+      applyDataConverter(this.converter, data),
+      options
+    );
     const docId = result.id;
-    return new DocumentReference(this.client, this.path, docId);
+    return new DocumentReference(this.client, this.path, docId, this.converter);
   }
 
   /**
    * Add filter condition
-   * @param fieldPath Field path
-   * @param opStr Operator
-   * @param value Value
+   * @param fieldPathOrFilter Field path, or a Filter (Filter.where / or / and)
+   * @param opStr Operator (when a field path is given)
+   * @param value Value (when a field path is given)
    * @returns Query instance
    */
-  where(fieldPath: string, opStr: string, value: any): Query {
-    const query = new Query(
+  where(filter: Filter): Query<T>;
+  where(fieldPath: string, opStr: string, value: any): Query<T>;
+  where(
+    fieldPathOrFilter: string | Filter,
+    opStr?: string,
+    value?: any
+  ): Query<T> {
+    const filter =
+      typeof fieldPathOrFilter === "string"
+        ? Filter.where(fieldPathOrFilter, opStr!, value)
+        : fieldPathOrFilter;
+
+    return new Query(
       this.client,
       this.path,
       {
         ...this._queryConstraints,
+        where: [...this._queryConstraints.where, filter],
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
+  }
 
-    // Operator conversion
-    let firestoreOp: string;
-    switch (opStr) {
-      case "==":
-        firestoreOp = "EQUAL";
-        break;
-      case "!=":
-        firestoreOp = "NOT_EQUAL";
-        break;
-      case "<":
-        firestoreOp = "LESS_THAN";
-        break;
-      case "<=":
-        firestoreOp = "LESS_THAN_OR_EQUAL";
-        break;
-      case ">":
-        firestoreOp = "GREATER_THAN";
-        break;
-      case ">=":
-        firestoreOp = "GREATER_THAN_OR_EQUAL";
-        break;
-      case "array-contains":
-        firestoreOp = "ARRAY_CONTAINS";
-        break;
-      case "in":
-        firestoreOp = "IN";
-        break;
-      case "array-contains-any":
-        firestoreOp = "ARRAY_CONTAINS_ANY";
-        break;
-      case "not-in":
-        firestoreOp = "NOT_IN";
-        break;
-      default:
-        firestoreOp = opStr;
-    }
+  /**
+   * Only return the given fields of each document. Without arguments only
+   * the document IDs are returned.
+   * @param fieldPaths Field paths to return
+   * @returns Query instance
+   */
+  select(...fieldPaths: string[]): Query<T> {
+    return new Query(
+      this.client,
+      this.path,
+      {
+        ...this._queryConstraints,
+        select: fieldPaths,
+      },
+      this.allDescendants,
+      this.converter
+    );
+  }
 
-    query._queryConstraints.where.push({
+  /**
+   * Add sorting condition (after any existing ones)
+   * @param fieldPath Field path
+   * @param directionStr Sort direction ('asc' or 'desc')
+   * @returns Query instance
+   */
+  orderBy(fieldPath: string, directionStr: "asc" | "desc" = "asc"): Query<T> {
+    const ordering: QueryOrdering = {
       field: fieldPath,
-      op: firestoreOp,
-      value,
-    });
+      direction: directionStr === "asc" ? "ASCENDING" : "DESCENDING",
+    };
+    return new Query(
+      this.client,
+      this.path,
+      {
+        ...this._queryConstraints,
+        orderBy: [...this._queryConstraints.orderBy, ordering],
+      },
+      this.allDescendants,
+      this.converter
+    );
+  }
 
+  /**
+   * Set limit on number of results
+   * @param limit Maximum number
+   * @returns Query instance
+   */
+  limit(limit: number): Query<T> {
+    const query = new Query(
+      this.client,
+      this.path,
+      {
+        ...this._queryConstraints,
+      },
+      this.allDescendants,
+      this.converter
+    );
+    query._queryConstraints.limit = limit;
     return query;
   }
 
   /**
-   * Add sorting condition
-   * @param fieldPath Field path
-   * @param directionStr Sort direction ('asc' or 'desc')
+   * Set number of documents to skip
+   * @param offset Number to skip
    * @returns Query instance
    */
-  orderBy(fieldPath: string, directionStr: "asc" | "desc" = "asc"): Query {
+  offset(offset: number): Query<T> {
     const query = new Query(
       this.client,
       this.path,
       {
         ...this._queryConstraints,
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
+    );
+    query._queryConstraints.offset = offset;
+    return query;
+  }
+
+  /**
+   * Start the results at the given orderBy() field values, or at a document
+   * @param fieldValuesOrSnapshot Field values, or a DocumentSnapshot
+   * @returns Query instance
+   */
+  startAt(...fieldValuesOrSnapshot: any[]): Query<T> {
+    return this.toQuery().startAt(...fieldValuesOrSnapshot);
+  }
+
+  /**
+   * Start the results after the given orderBy() field values, or after a
+   * document
+   * @param fieldValuesOrSnapshot Field values, or a DocumentSnapshot
+   * @returns Query instance
+   */
+  startAfter(...fieldValuesOrSnapshot: any[]): Query<T> {
+    return this.toQuery().startAfter(...fieldValuesOrSnapshot);
+  }
+
+  /**
+   * End the results at the given orderBy() field values, or at a document
+   * @param fieldValuesOrSnapshot Field values, or a DocumentSnapshot
+   * @returns Query instance
+   */
+  endAt(...fieldValuesOrSnapshot: any[]): Query<T> {
+    return this.toQuery().endAt(...fieldValuesOrSnapshot);
+  }
+
+  /**
+   * End the results before the given orderBy() field values, or before a
+   * document
+   * @param fieldValuesOrSnapshot Field values, or a DocumentSnapshot
+   * @returns Query instance
+   */
+  endBefore(...fieldValuesOrSnapshot: any[]): Query<T> {
+    return this.toQuery().endBefore(...fieldValuesOrSnapshot);
+  }
+
+  /**
+   * Count the documents matching the query on the server
+   * @returns AggregateQuery instance
+   */
+  count(): AggregateQuery<{ count: AggregateField<number> }> {
+    return this.aggregate({ count: AggregateField.count() });
+  }
+
+  /**
+   * Compute aggregations over the documents matching the query on the server
+   * @param aggregateSpec Aggregations keyed by alias, e.g.
+   * `{ total: sum("price"), avg: average("rating") }`
+   * @returns AggregateQuery instance
+   */
+  aggregate<T extends AggregateSpec>(aggregateSpec: T): AggregateQuery<T> {
+    return new AggregateQuery(
+      this.client,
+      this.path,
+      this._queryConstraints,
+      this.allDescendants,
+      aggregateSpec
     );
-    query._queryConstraints.orderBy = fieldPath;
-    query._queryConstraints.orderDirection =
-      directionStr === "asc" ? "ASCENDING" : "DESCENDING";
-    return query;
   }
 
   /**
-   * Set limit on number of results
-   * @param limit Maximum number
-   * @returns Query instance
+   * Execute query
+   * @param options `signal` to cancel the request (optional)
+   * @returns QuerySnapshot instance
    */
-  limit(limit: number): Query {
-    const query = new Query(
-      this.client,
+  async get(options: RequestOptions = {}): Promise<QuerySnapshot<T>> {
+    const results = await this.client.queryDocuments(
       this.path,
-      {
-        ...this._queryConstraints,
-      },
+      { ...this._queryConstraints, signal: options.signal },
       this.allDescendants
     );
-    query._queryConstraints.limit = limit;
-    return query;
+    return new QuerySnapshot(
+      results.map(result =>
+        createQueryDocumentSnapshot(this.client, result, this.converter)
+      )
+    );
   }
 
   /**
-   * Set number of documents to skip
-   * @param offset Number to skip
-   * @returns Query instance
+   * Stream the matching documents without loading all results into memory.
+   * Large scans are fetched in pages that continue from the last document.
+   * @param options Stream options
+   * @returns Async iterable of DocumentSnapshot instances
    */
-  offset(offset: number): Query {
-    const query = new Query(
-      this.client,
+  async *stream(
+    options: StreamOptions = {}
+  ): AsyncGenerator<DocumentSnapshot<T>> {
+    const documents = this.client.streamQuery(
       this.path,
-      {
-        ...this._queryConstraints,
-      },
-      this.allDescendants
+      { ...this._queryConstraints, signal: options.signal },
+      this.allDescendants,
+      options.pageSize
     );
-    query._queryConstraints.offset = offset;
-    return query;
+    for await (const result of documents) {
+      yield createQueryDocumentSnapshot(this.client, result, this.converter);
+    }
   }
 
   /**
-   * Execute query
-   * @returns QuerySnapshot instance
+   * Apply a converter, so documents are read and written as `U` (pass null
+   * to remove it)
+   * @param converter Converter to apply
+   * @returns CollectionReference instance using the converter
    */
-  async get(): Promise<QuerySnapshot> {
-    const results = await this.client.query(
+  withConverter<U>(
+    converter: FirestoreDataConverter<U>
+  ): CollectionReference<U>;
+  withConverter(converter: null): CollectionReference<DocumentData>;
+  withConverter<U>(
+    converter: FirestoreDataConverter<U> | null
+  ): CollectionReference<U> {
+    return new CollectionReference<U>(this.client, this.path, converter);
+  }
+
+  /**
+   * Query over this collection with the current constraints
+   * @private
+   */
+  private toQuery(): Query<T> {
+    return new Query(
+      this.client,
       this.path,
-      this._queryConstraints,
-      this.allDescendants
+      { ...this._queryConstraints },
+      this.allDescendants,
+      this.converter
     );
-    return new QuerySnapshot(results);
   }
 
   /**
@@ -1011,15 +2266,26 @@ export class CollectionReference {
 /**
  * Document reference class
  */
-export class DocumentReference {
+export class DocumentReference<T = DocumentData> {
   private client: FirestoreClient;
   private collectionPath: string;
   private docId: string;
 
-  constructor(client: FirestoreClient, collectionPath: string, docId: string) {
+  /**
+   * Converter applied to this document (null for plain data)
+   */
+  readonly converter: FirestoreDataConverter<T> | null;
+
+  constructor(
+    client: FirestoreClient,
+    collectionPath: string,
+    docId: string,
+    converter: FirestoreDataConverter<T> | null = null
+  ) {
     this.client = client;
     this.collectionPath = collectionPath;
     this.docId = docId;
+    this.converter = converter;
   }
 
   /**
@@ -1047,8 +2313,12 @@ export class DocumentReference {
   /**
    * Get parent collection reference
    */
-  get parent(): CollectionReference {
-    return new CollectionReference(this.client, this.collectionPath);
+  get parent(): CollectionReference<T> {
+    return new CollectionReference(
+      this.client,
+      this.collectionPath,
+      this.converter
+    );
   }
 
   /**
@@ -1056,8 +2326,8 @@ export class DocumentReference {
    * @param collectionPath Subcollection name
    * @returns CollectionReference instance
    */
-  collection(collectionPath: string): CollectionReference {
-    return new CollectionReference(
+  collection<U = DocumentData>(collectionPath: string): CollectionReference<U> {
+    return new CollectionReference<U>(
       this.client,
       `${this.path}/${collectionPath}`
     );
@@ -1065,77 +2335,111 @@ export class DocumentReference {
 
   /**
    * Get document
+   * @param options `signal` to cancel the request (optional)
    * @returns DocumentSnapshot instance
    */
-  async get(): Promise<DocumentSnapshot> {
-    const data = await this.client.get(this.collectionPath, this.docId);
-    return new DocumentSnapshot(this.docId, data);
+  async get(options: RequestOptions = {}): Promise<DocumentSnapshot<T>> {
+    return this.client.getSnapshot(this, options);
   }
 
   /**
-   * Create or overwrite document
+   * Create or overwrite document. With `{ merge: true }` the data is merged
+   * into the existing document (nested maps included) instead; with
+   * `{ mergeFields }` only the listed field paths are written.
    * @param data Document data
-   * @param options Options (merge is not currently supported)
+   * @param options Set options, and `signal` to cancel the request
    * @returns WriteResult instance
    */
+  set(data: T, options?: SetOptions & RequestOptions): Promise<WriteResult>;
+  set(
+    data: Partial<T>,
+    options: MergeSetOptions & RequestOptions
+  ): Promise<WriteResult>;
   async set(
-    data: Record<string, any>,
-    options?: { merge?: boolean }
+    data: T | Partial<T>,
+    options?: SetOptions & RequestOptions
   ): Promise<WriteResult> {
-    // Get existing document
-    const existingDoc = await this.client.get(this.collectionPath, this.docId);
-
-    if (existingDoc) {
-      // If existing document exists, update
-      const mergedData = options?.merge ? { ...existingDoc, ...data } : data;
-      await this.client.update(this.collectionPath, this.docId, mergedData);
-    } else {
-      // New creation
-      await this.client.createWithId(this.collectionPath, this.docId, data);
-    }
-
-    return new WriteResult();
+    return this.client.setDocument(
+      this.collectionPath,
+      this.docId,
+      applyDataConverter(this.converter, data as T, options),
+      options
+    );
   }
 
   /**
    * Update document
    * @param data Update data
+   * @param options Precondition for the update (defaults to `exists: true`),
+   * and `signal` to cancel the request
    * @returns WriteResult instance
    */
-  async update(data: Record<string, any>): Promise<WriteResult> {
-    await this.client.update(this.collectionPath, this.docId, data);
-    return new WriteResult();
+  async update(
+    data: UpdateData<T>,
+    options?: Precondition & RequestOptions
+  ): Promise<WriteResult> {
+    return this.client.updateDocument(
+      this.collectionPath,
+      this.docId,
+      data as DocumentData,
+      options
+    );
   }
 
   /**
    * Delete document
+   * @param options Precondition for the delete, and `signal` to cancel the
+   * request
    * @returns WriteResult instance
    */
-  async delete(): Promise<WriteResult> {
-    await this.client.delete(this.collectionPath, this.docId);
-    return new WriteResult();
+  async delete(options?: Precondition & RequestOptions): Promise<WriteResult> {
+    return this.client.deleteDocument(this.collectionPath, this.docId, options);
+  }
+  /**
+   * Apply a converter, so documents are read and written as `U` (pass null
+   * to remove it)
+   * @param converter Converter to apply
+   * @returns DocumentReference instance using the converter
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): DocumentReference<U>;
+  withConverter(converter: null): DocumentReference<DocumentData>;
+  withConverter<U>(
+    converter: FirestoreDataConverter<U> | null
+  ): DocumentReference<U> {
+    return new DocumentReference<U>(
+      this.client,
+      this.collectionPath,
+      this.docId,
+      converter
+    );
   }
 }
 
 /**
  * Collection group
  */
-export class CollectionGroup {
+export class CollectionGroup<T = DocumentData> {
   private client: FirestoreClient;
   private path: string;
-  private _queryConstraints: {
-    where: Array<{ field: string; op: string; value: any }>;
-    orderBy?: string;
-    orderDirection?: string;
-    limit?: number;
-    offset?: number;
-  };
+  private _queryConstraints: QueryConstraints;
+
+  /**
+   * Converter applied to documents of this collection group (null for plain
+   * data)
+   */
+  readonly converter: FirestoreDataConverter<T> | null;
 
-  constructor(client: FirestoreClient, path: string) {
+  constructor(
+    client: FirestoreClient,
+    path: string,
+    converter: FirestoreDataConverter<T> | null = null
+  ) {
     this.client = client;
     this.path = path;
+    this.converter = converter;
     this._queryConstraints = {
       where: [],
+      orderBy: [],
     };
   }
 
@@ -1148,86 +2452,75 @@ export class CollectionGroup {
 
   /**
    * Add filter condition
-   * @param fieldPath Field path
-   * @param opStr Operator
-   * @param value Value
+   * @param fieldPathOrFilter Field path, or a Filter (Filter.where / or / and)
+   * @param opStr Operator (when a field path is given)
+   * @param value Value (when a field path is given)
    * @returns Query instance
    */
-  where(fieldPath: string, opStr: string, value: any): Query {
-    const query = new Query(
+  where(filter: Filter): Query<T>;
+  where(fieldPath: string, opStr: string, value: any): Query<T>;
+  where(
+    fieldPathOrFilter: string | Filter,
+    opStr?: string,
+    value?: any
+  ): Query<T> {
+    const filter =
+      typeof fieldPathOrFilter === "string"
+        ? Filter.where(fieldPathOrFilter, opStr!, value)
+        : fieldPathOrFilter;
+
+    return new Query(
       this.client,
       this.path,
       {
         ...this._queryConstraints,
+        where: [...this._queryConstraints.where, filter],
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
+  }
 
-    // Operator conversion
-    let firestoreOp: string;
-    switch (opStr) {
-      case "==":
-        firestoreOp = "EQUAL";
-        break;
-      case "!=":
-        firestoreOp = "NOT_EQUAL";
-        break;
-      case "<":
-        firestoreOp = "LESS_THAN";
-        break;
-      case "<=":
-        firestoreOp = "LESS_THAN_OR_EQUAL";
-        break;
-      case ">":
-        firestoreOp = "GREATER_THAN";
-        break;
-      case ">=":
-        firestoreOp = "GREATER_THAN_OR_EQUAL";
-        break;
-      case "array-contains":
-        firestoreOp = "ARRAY_CONTAINS";
-        break;
-      case "in":
-        firestoreOp = "IN";
-        break;
-      case "array-contains-any":
-        firestoreOp = "ARRAY_CONTAINS_ANY";
-        break;
-      case "not-in":
-        firestoreOp = "NOT_IN";
-        break;
-      default:
-        firestoreOp = opStr;
-    }
-
-    query._queryConstraints.where.push({
-      field: fieldPath,
-      op: firestoreOp,
-      value,
-    });
-
-    return query;
+  /**
+   * Only return the given fields of each document. Without arguments only
+   * the document IDs are returned.
+   * @param fieldPaths Field paths to return
+   * @returns Query instance
+   */
+  select(...fieldPaths: string[]): Query<T> {
+    return new Query(
+      this.client,
+      this.path,
+      {
+        ...this._queryConstraints,
+        select: fieldPaths,
+      },
+      this.allDescendants,
+      this.converter
+    );
   }
 
   /**
-   * Add sorting condition
+   * Add sorting condition (after any existing ones)
    * @param fieldPath Field path
    * @param directionStr Sort direction ('asc' or 'desc')
    * @returns Query instance
    */
-  orderBy(fieldPath: string, directionStr: "asc" | "desc" = "asc"): Query {
-    const query = new Query(
+  orderBy(fieldPath: string, directionStr: "asc" | "desc" = "asc"): Query<T> {
+    const ordering: QueryOrdering = {
+      field: fieldPath,
+      direction: directionStr === "asc" ? "ASCENDING" : "DESCENDING",
+    };
+    return new Query(
       this.client,
       this.path,
       {
         ...this._queryConstraints,
+        orderBy: [...this._queryConstraints.orderBy, ordering],
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
-    query._queryConstraints.orderBy = fieldPath;
-    query._queryConstraints.orderDirection =
-      directionStr === "asc" ? "ASCENDING" : "DESCENDING";
-    return query;
   }
 
   /**
@@ -1235,14 +2528,15 @@ export class CollectionGroup {
    * @param limit Maximum number
    * @returns Query instance
    */
-  limit(limit: number): Query {
+  limit(limit: number): Query<T> {
     const query = new Query(
       this.client,
       this.path,
       {
         ...this._queryConstraints,
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
     query._queryConstraints.limit = limit;
     return query;
@@ -1253,148 +2547,195 @@ export class CollectionGroup {
    * @param offset Number to skip
    * @returns Query instance
    */
-  offset(offset: number): Query {
+  offset(offset: number): Query<T> {
     const query = new Query(
       this.client,
       this.path,
       {
         ...this._queryConstraints,
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
     query._queryConstraints.offset = offset;
     return query;
   }
 
+  /**
+   * Count the documents matching the query on the server
+   * @returns AggregateQuery instance
+   */
+  count(): AggregateQuery<{ count: AggregateField<number> }> {
+    return this.aggregate({ count: AggregateField.count() });
+  }
+
+  /**
+   * Compute aggregations over the documents matching the query on the server
+   * @param aggregateSpec Aggregations keyed by alias, e.g.
+   * `{ total: sum("price"), avg: average("rating") }`
+   * @returns AggregateQuery instance
+   */
+  aggregate<T extends AggregateSpec>(aggregateSpec: T): AggregateQuery<T> {
+    return new AggregateQuery(
+      this.client,
+      this.path,
+      this._queryConstraints,
+      this.allDescendants,
+      aggregateSpec
+    );
+  }
+
   /**
    * Execute query
+   * @param options `signal` to cancel the request (optional)
    * @returns QuerySnapshot instance
    */
-  async get(): Promise<QuerySnapshot> {
-    const results = await this.client.query(
+  async get(options: RequestOptions = {}): Promise<QuerySnapshot<T>> {
+    const results = await this.client.queryDocuments(
       this.path,
-      this._queryConstraints,
+      { ...this._queryConstraints, signal: options.signal },
       this.allDescendants
     );
-    return new QuerySnapshot(results);
+    return new QuerySnapshot(
+      results.map(result =>
+        createQueryDocumentSnapshot(this.client, result, this.converter)
+      )
+    );
+  }
+
+  /**
+   * Stream the matching documents without loading all results into memory.
+   * Large scans are fetched in pages that continue from the last document.
+   * @param options Stream options
+   * @returns Async iterable of DocumentSnapshot instances
+   */
+  async *stream(
+    options: StreamOptions = {}
+  ): AsyncGenerator<DocumentSnapshot<T>> {
+    const documents = this.client.streamQuery(
+      this.path,
+      { ...this._queryConstraints, signal: options.signal },
+      this.allDescendants,
+      options.pageSize
+    );
+    for await (const result of documents) {
+      yield createQueryDocumentSnapshot(this.client, result, this.converter);
+    }
+  }
+  /**
+   * Apply a converter, so documents are read and written as `U` (pass null
+   * to remove it)
+   * @param converter Converter to apply
+   * @returns CollectionGroup instance using the converter
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): CollectionGroup<U>;
+  withConverter(converter: null): CollectionGroup<DocumentData>;
+  withConverter<U>(
+    converter: FirestoreDataConverter<U> | null
+  ): CollectionGroup<U> {
+    return new CollectionGroup<U>(this.client, this.path, converter);
   }
 }
 
 /**
  * Query class
  */
-export class Query {
+export class Query<T = DocumentData> {
   private client: FirestoreClient;
   private collectionPath: string;
   private allDescendants: boolean;
-  _queryConstraints: {
-    where: Array<{ field: string; op: string; value: any }>;
-    orderBy?: string;
-    orderDirection?: string;
-    limit?: number;
-    offset?: number;
-  };
+  _queryConstraints: QueryConstraints;
+
+  /**
+   * Converter applied to the query results (null for plain data)
+   */
+  readonly converter: FirestoreDataConverter<T> | null;
 
   constructor(
     client: FirestoreClient,
     collectionPath: string,
-    constraints: {
-      where: Array<{ field: string; op: string; value: any }>;
-      orderBy?: string;
-      orderDirection?: string;
-      limit?: number;
-      offset?: number;
-    },
-    allDescendants: boolean
+    constraints: QueryConstraints,
+    allDescendants: boolean,
+    converter: FirestoreDataConverter<T> | null = null
   ) {
     this.client = client;
     this.collectionPath = collectionPath;
     this._queryConstraints = constraints;
     this.allDescendants = allDescendants;
+    this.converter = converter;
   }
 
   /**
    * Add filter condition
-   * @param fieldPath Field path
-   * @param opStr Operator
-   * @param value Value
+   * @param fieldPathOrFilter Field path, or a Filter (Filter.where / or / and)
+   * @param opStr Operator (when a field path is given)
+   * @param value Value (when a field path is given)
    * @returns Query instance
    */
-  where(fieldPath: string, opStr: string, value: any): Query {
-    const query = new Query(
+  where(filter: Filter): Query<T>;
+  where(fieldPath: string, opStr: string, value: any): Query<T>;
+  where(
+    fieldPathOrFilter: string | Filter,
+    opStr?: string,
+    value?: any
+  ): Query<T> {
+    const filter =
+      typeof fieldPathOrFilter === "string"
+        ? Filter.where(fieldPathOrFilter, opStr!, value)
+        : fieldPathOrFilter;
+
+    return new Query(
       this.client,
       this.collectionPath,
       {
         ...this._queryConstraints,
+        where: [...this._queryConstraints.where, filter],
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
+  }
 
-    // Operator conversion
-    let firestoreOp: string;
-    switch (opStr) {
-      case "==":
-        firestoreOp = "EQUAL";
-        break;
-      case "!=":
-        firestoreOp = "NOT_EQUAL";
-        break;
-      case "<":
-        firestoreOp = "LESS_THAN";
-        break;
-      case "<=":
-        firestoreOp = "LESS_THAN_OR_EQUAL";
-        break;
-      case ">":
-        firestoreOp = "GREATER_THAN";
-        break;
-      case ">=":
-        firestoreOp = "GREATER_THAN_OR_EQUAL";
-        break;
-      case "array-contains":
-        firestoreOp = "ARRAY_CONTAINS";
-        break;
-      case "in":
-        firestoreOp = "IN";
-        break;
-      case "array-contains-any":
-        firestoreOp = "ARRAY_CONTAINS_ANY";
-        break;
-      case "not-in":
-        firestoreOp = "NOT_IN";
-        break;
-      default:
-        firestoreOp = opStr;
-    }
-
-    query._queryConstraints.where.push({
-      field: fieldPath,
-      op: firestoreOp,
-      value,
-    });
-
-    return query;
+  /**
+   * Only return the given fields of each document. Without arguments only
+   * the document IDs are returned.
+   * @param fieldPaths Field paths to return
+   * @returns Query instance
+   */
+  select(...fieldPaths: string[]): Query<T> {
+    return new Query(
+      this.client,
+      this.collectionPath,
+      {
+        ...this._queryConstraints,
+        select: fieldPaths,
+      },
+      this.allDescendants,
+      this.converter
+    );
   }
 
   /**
-   * Add sorting condition
+   * Add sorting condition (after any existing ones)
    * @param fieldPath Field path
    * @param directionStr Sort direction ('asc' or 'desc')
    * @returns Query instance
    */
-  orderBy(fieldPath: string, directionStr: "asc" | "desc" = "asc"): Query {
-    const query = new Query(
+  orderBy(fieldPath: string, directionStr: "asc" | "desc" = "asc"): Query<T> {
+    const ordering: QueryOrdering = {
+      field: fieldPath,
+      direction: directionStr === "asc" ? "ASCENDING" : "DESCENDING",
+    };
+    return new Query(
       this.client,
       this.collectionPath,
       {
         ...this._queryConstraints,
+        orderBy: [...this._queryConstraints.orderBy, ordering],
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
-    query._queryConstraints.orderBy = fieldPath;
-    query._queryConstraints.orderDirection =
-      directionStr === "asc" ? "ASCENDING" : "DESCENDING";
-    return query;
   }
 
   /**
@@ -1402,68 +2743,225 @@ export class Query {
    * @param limit Maximum number
    * @returns Query instance
    */
-  limit(limit: number): Query {
+  limit(limit: number): Query<T> {
     const query = new Query(
       this.client,
       this.collectionPath,
       {
         ...this._queryConstraints,
+        limitToLast: undefined,
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
     query._queryConstraints.limit = limit;
     return query;
   }
 
+  /**
+   * Limit the results to the last documents in the query's ordering. The
+   * results are still returned in the requested order. Requires at least one
+   * orderBy() clause.
+   * @param limit Maximum number
+   * @returns Query instance
+   */
+  limitToLast(limit: number): Query<T> {
+    return new Query(
+      this.client,
+      this.collectionPath,
+      {
+        ...this._queryConstraints,
+        limit: undefined,
+        limitToLast: limit,
+      },
+      this.allDescendants,
+      this.converter
+    );
+  }
+
   /**
    * Set number of documents to skip
    * @param offset Number to skip
    * @returns Query instance
    */
-  offset(offset: number): Query {
+  offset(offset: number): Query<T> {
     const query = new Query(
       this.client,
       this.collectionPath,
       {
         ...this._queryConstraints,
       },
-      this.allDescendants
+      this.allDescendants,
+      this.converter
     );
     query._queryConstraints.offset = offset;
     return query;
   }
 
+  /**
+   * Start the results at the given orderBy() field values, or at a document
+   * @param fieldValuesOrSnapshot Field values, or a DocumentSnapshot
+   * @returns Query instance
+   */
+  startAt(...fieldValuesOrSnapshot: any[]): Query<T> {
+    return this.withCursor("startAt", fieldValuesOrSnapshot, true);
+  }
+
+  /**
+   * Start the results after the given orderBy() field values, or after a
+   * document
+   * @param fieldValuesOrSnapshot Field values, or a DocumentSnapshot
+   * @returns Query instance
+   */
+  startAfter(...fieldValuesOrSnapshot: any[]): Query<T> {
+    return this.withCursor("startAfter", fieldValuesOrSnapshot, false);
+  }
+
+  /**
+   * End the results at the given orderBy() field values, or at a document
+   * @param fieldValuesOrSnapshot Field values, or a DocumentSnapshot
+   * @returns Query instance
+   */
+  endAt(...fieldValuesOrSnapshot: any[]): Query<T> {
+    return this.withCursor("endAt", fieldValuesOrSnapshot, false);
+  }
+
+  /**
+   * End the results before the given orderBy() field values, or before a
+   * document
+   * @param fieldValuesOrSnapshot Field values, or a DocumentSnapshot
+   * @returns Query instance
+   */
+  endBefore(...fieldValuesOrSnapshot: any[]): Query<T> {
+    return this.withCursor("endBefore", fieldValuesOrSnapshot, true);
+  }
+
+  /**
+   * Count the documents matching the query on the server
+   * @returns AggregateQuery instance
+   */
+  count(): AggregateQuery<{ count: AggregateField<number> }> {
+    return this.aggregate({ count: AggregateField.count() });
+  }
+
+  /**
+   * Compute aggregations over the documents matching the query on the server
+   * @param aggregateSpec Aggregations keyed by alias, e.g.
+   * `{ total: sum("price"), avg: average("rating") }`
+   * @returns AggregateQuery instance
+   */
+  aggregate<T extends AggregateSpec>(aggregateSpec: T): AggregateQuery<T> {
+    return new AggregateQuery(
+      this.client,
+      this.collectionPath,
+      this._queryConstraints,
+      this.allDescendants,
+      aggregateSpec
+    );
+  }
+
   /**
    * Execute query
+   * @param options `signal` to cancel the request (optional)
    * @returns QuerySnapshot instance
    */
-  async get(): Promise<QuerySnapshot> {
-    const results = await this.client.query(
+  async get(options: RequestOptions = {}): Promise<QuerySnapshot<T>> {
+    const results = await this.client.queryDocuments(
       this.collectionPath,
-      this._queryConstraints,
+      { ...this._queryConstraints, signal: options.signal },
       this.allDescendants
     );
-    return new QuerySnapshot(results);
+    return new QuerySnapshot(
+      results.map(result =>
+        createQueryDocumentSnapshot(this.client, result, this.converter)
+      )
+    );
+  }
+
+  /**
+   * Stream the matching documents without loading all results into memory.
+   * Large scans are fetched in pages that continue from the last document.
+   * @param options Stream options
+   * @returns Async iterable of DocumentSnapshot instances
+   */
+  async *stream(
+    options: StreamOptions = {}
+  ): AsyncGenerator<DocumentSnapshot<T>> {
+    const documents = this.client.streamQuery(
+      this.collectionPath,
+      { ...this._queryConstraints, signal: options.signal },
+      this.allDescendants,
+      options.pageSize
+    );
+    for await (const result of documents) {
+      yield createQueryDocumentSnapshot(this.client, result, this.converter);
+    }
+  }
+
+  /**
+   * Apply a converter, so documents are read and written as `U` (pass null
+   * to remove it)
+   * @param converter Converter to apply
+   * @returns Query instance using the converter
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): Query<U>;
+  withConverter(converter: null): Query<DocumentData>;
+  withConverter<U>(converter: FirestoreDataConverter<U> | null): Query<U> {
+    return new Query<U>(
+      this.client,
+      this.collectionPath,
+      this._queryConstraints,
+      this.allDescendants,
+      converter
+    );
+  }
+
+  /**
+   * Copy of this query with a start or end cursor
+   * @param methodName Cursor method name
+   * @param fieldValuesOrSnapshot Field values or a single DocumentSnapshot
+   * @param before Whether the position is just before the values
+   * @private
+   */
+  private withCursor(
+    methodName: "startAt" | "startAfter" | "endAt" | "endBefore",
+    fieldValuesOrSnapshot: any[],
+    before: boolean
+  ): Query<T> {
+    const cursor = createCursor(
+      this.client,
+      this.collectionPath,
+      this.allDescendants,
+      this._queryConstraints,
+      methodName,
+      fieldValuesOrSnapshot,
+      before
+    );
+    const key = methodName.startsWith("start") ? "startAt" : "endAt";
+    return new Query(
+      this.client,
+      this.collectionPath,
+      { ...this._queryConstraints, [key]: cursor },
+      this.allDescendants,
+      this.converter
+    );
   }
 }
 
 /**
  * Query result class
  */
-export class QuerySnapshot {
-  private _docs: DocumentSnapshot[];
+export class QuerySnapshot<T = DocumentData> {
+  private _docs: DocumentSnapshot<T>[];
 
-  constructor(results: Array<Record<string, any>>) {
-    this._docs = results.map(doc => {
-      const { id, ...data } = doc;
-      return new DocumentSnapshot(id, data);
-    });
+  constructor(docs: DocumentSnapshot<T>[]) {
+    this._docs = docs;
   }
 
   /**
    * Array of documents in the result
    */
-  get docs(): DocumentSnapshot[] {
+  get docs(): DocumentSnapshot<T>[] {
     return this._docs;
   }
 
@@ -1485,7 +2983,7 @@ export class QuerySnapshot {
    * Execute callback for each document
    * @param callback Callback function to execute for each document
    */
-  forEach(callback: (result: DocumentSnapshot) => void): void {
+  forEach(callback: (result: DocumentSnapshot<T>) => void): void {
     this._docs.forEach(callback);
   }
 }
@@ -1493,20 +2991,45 @@ export class QuerySnapshot {
 /**
  * Document snapshot class
  */
-export class DocumentSnapshot {
-  private _id: string;
-  private _data: Record<string, any> | null;
+export class DocumentSnapshot<T = DocumentData> {
+  /**
+   * Reference to the document (with the converter, if one was applied)
+   */
+  readonly ref: DocumentReference<T>;
+  /**
+   * Plain document data, before any converter is applied
+   */
+  readonly _data: DocumentData | null;
+  /**
+   * Time the document was created (unset if it doesn't exist)
+   */
+  readonly createTime?: Date;
+  /**
+   * Time the document was last changed (unset if it doesn't exist)
+   */
+  readonly updateTime?: Date;
+  /**
+   * Time the document was read (unset for single-document reads)
+   */
+  readonly readTime?: Date;
 
-  constructor(id: string, data: Record<string, any> | null) {
-    this._id = id;
+  constructor(
+    ref: DocumentReference<T>,
+    data: DocumentData | null,
+    metadata: SnapshotMetadata = {}
+  ) {
+    this.ref = ref;
     this._data = data;
+    this.createTime = metadata.createTime;
+    this.updateTime = metadata.updateTime;
+    this.readTime = metadata.readTime;
   }
 
   /**
    * Document ID
    */
   get id(): string {
-    return this._id;
+    return this.ref.id;
   }
 
   /**
@@ -1517,11 +3040,32 @@ export class DocumentSnapshot {
   }
 
   /**
-   * Get document data
+   * Get document data, converted with the converter if one was applied
    * @returns Document data (undefined if it doesn't exist)
    */
-  data(): Record<string, any> | undefined {
-    return this._data || undefined;
+  data(): T | undefined {
+    if (!this._data) {
+      return undefined;
+    }
+    if (this.ref.converter) {
+      return this.ref.converter.fromFirestore(
+        new DocumentSnapshot(this.ref.withConverter(null), this._data, this)
+      );
+    }
+    return this._data as T;
+  }
+
+  /**
+   * Get the value of a field, without applying the converter
+   * @param fieldPath Field path (dot-separated for nested fields, with names
+   * containing dots or other special characters in backticks)
+   * @returns Field value (undefined if the field or document doesn't exist)
+   */
+  get(fieldPath: string): any {
+    return parseFieldPath(fieldPath).reduce(
+      (value, name) => value?.[name],
+      this._data ?? undefined
+    );
   }
 }
 
@@ -1534,8 +3078,19 @@ export class WriteResult {
    */
   readonly writeTime: Date;
 
-  constructor() {
-    this.writeTime = new Date();
+  /**
+   * Results of the write's field transforms (e.g. the new value of an
+   * `increment()`), in the order the transforms were applied
+   */
+  readonly transformResults: any[];
+
+  /**
+   * @param writeTime Server write time
+   * @param transformResults Converted transform results (if any)
+   */
+  constructor(writeTime: Date, transformResults: any[] = []) {
+    this.writeTime = writeTime;
+    this.transformResults = transformResults;
   }
 }
 
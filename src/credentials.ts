@@ -0,0 +1,98 @@
+import {
+  AccessToken,
+  AccessTokenSource,
+  CredentialContext,
+  CredentialProvider,
+  MetadataServerOptions,
+  ServiceAccountKey,
+} from "./types";
+import { exchangeJWT, readTokenResponse } from "./utils/auth";
+
+/**
+ * Credentials from a service account key: a JWT signed with the private key
+ * is exchanged for an access token. Used by default when the config has a
+ * `privateKey` and `clientEmail`.
+ */
+export class ServiceAccountCredentials implements CredentialProvider {
+  private key: ServiceAccountKey;
+
+  /**
+   * Constructor
+   * @param key Service account client email and private key
+   */
+  constructor(key: ServiceAccountKey) {
+    this.key = key;
+  }
+
+  /**
+   * Get an access token from the OAuth token endpoint
+   * @param context Credential context to send the request with
+   * @returns Access token
+   */
+  async getAccessToken(context: CredentialContext): Promise<AccessToken> {
+    return exchangeJWT(context, this.key);
+  }
+}
+
+/**
+ * Credentials from an access token obtained elsewhere, e.g. by
+ * `gcloud auth print-access-token` or a token broker. Given a function, it is
+ * called whenever the client needs a token: every request, unless the
+ * function returns an `AccessToken` with an `expiresAt`.
+ */
+export class AccessTokenCredentials implements CredentialProvider {
+  private source: AccessTokenSource;
+
+  /**
+   * Constructor
+   * @param source Access token, or a function that returns the current one
+   */
+  constructor(source: AccessTokenSource) {
+    this.source = source;
+  }
+
+  /**
+   * Get the access token
+   * @returns Access token
+   */
+  async getAccessToken(): Promise<AccessToken> {
+    const token =
+      typeof this.source === "function" ? await this.source() : this.source;
+    return typeof token === "string" ? { token } : token;
+  }
+}
+
+/**
+ * Credentials of the service account attached to the environment, from its
+ * metadata server (Compute Engine, Cloud Run, Cloud Functions, GKE with
+ * workload identity). No key is needed.
+ */
+export class MetadataServerCredentials implements CredentialProvider {
+  private url: string;
+
+  /**
+   * Constructor
+   * @param options Metadata server host, service account and scopes
+   */
+  constructor(options: MetadataServerOptions = {}) {
+    const host = options.host ?? "metadata.google.internal";
+    const account = encodeURIComponent(options.serviceAccount ?? "default");
+    const query = options.scopes?.length
+      ? `?scopes=${encodeURIComponent(options.scopes.join(","))}`
+      : "";
+    this.url = `http://${host}/computeMetadata/v1/instance/service-accounts/${account}/token${query}`;
+  }
+
+  /**
+   * Get an access token from the metadata server
+   * @param context Credential context to send the request with
+   * @returns Access token
+   */
+  async getAccessToken(context: CredentialContext): Promise<AccessToken> {
+    const response = await context.fetch(this.url, {
+      method: "GET",
+      headers: { "Metadata-Flavor": "Google" },
+    });
+    return readTokenResponse("GET", this.url, response);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Canonical gRPC status codes reported by the Firestore API
+ */
+export type FirestoreErrorCode =
+  | "CANCELLED"
+  | "UNKNOWN"
+  | "INVALID_ARGUMENT"
+  | "DEADLINE_EXCEEDED"
+  | "NOT_FOUND"
+  | "ALREADY_EXISTS"
+  | "PERMISSION_DENIED"
+  | "RESOURCE_EXHAUSTED"
+  | "FAILED_PRECONDITION"
+  | "ABORTED"
+  | "OUT_OF_RANGE"
+  | "UNIMPLEMENTED"
+  | "INTERNAL"
+  | "UNAVAILABLE"
+  | "DATA_LOSS"
+  | "UNAUTHENTICATED";
+
+/**
+ * Where a FirestoreError came from
+ */
+export interface FirestoreErrorInit {
+  /**
+   * HTTP status of the response
+   */
+  status: number;
+  /**
+   * `details` of the Google error response (empty if there were none)
+   */
+  details?: unknown[];
+  /**
+   * HTTP method of the failed request
+   */
+  method: string;
+  /**
+   * URL path of the failed request (without the query string)
+   */
+  path: string;
+}
+
+/**
+ * Thrown when a Firestore API request fails. `code` is the gRPC status
+ * reported by the server (e.g. `NOT_FOUND`, `ALREADY_EXISTS`, `ABORTED`), or
+ * derived from the HTTP status when the response has no error body.
+ */
+export class FirestoreError extends Error {
+  readonly code: FirestoreErrorCode;
+  readonly status: number;
+  readonly details: unknown[];
+  readonly method: string;
+  readonly path: string;
+
+  constructor(
+    code: FirestoreErrorCode,
+    message: string,
+    init: FirestoreErrorInit
+  ) {
+    super(message);
+    this.name = "FirestoreError";
+    this.code = code;
+    this.status = init.status;
+    this.details = init.details ?? [];
+    this.method = init.method;
+    this.path = init.path;
+  }
+}
+
+/**
+ * Thrown when a write's precondition is not met (`FAILED_PRECONDITION`),
+ * typically because the document was changed after the `lastUpdateTime`
+ * given: another writer got there first, so the caller should re-read the
+ * document and retry.
+ */
+export class FailedPreconditionError extends FirestoreError {
+  constructor(message: string, init: FirestoreErrorInit) {
+    super("FAILED_PRECONDITION", message, init);
+    this.name = "FailedPreconditionError";
+  }
+}
+
+/**
+ * gRPC codes for HTTP statuses, used when the response has no error body.
+ * 409 is also used for ABORTED, which always comes with an error body.
+ */
+const HTTP_STATUS_CODES: Record<number, FirestoreErrorCode> = {
+  400: "INVALID_ARGUMENT",
+  401: "UNAUTHENTICATED",
+  403: "PERMISSION_DENIED",
+  404: "NOT_FOUND",
+  409: "ALREADY_EXISTS",
+  412: "FAILED_PRECONDITION",
+  429: "RESOURCE_EXHAUSTED",
+  499: "CANCELLED",
+  500: "INTERNAL",
+  501: "UNIMPLEMENTED",
+  503: "UNAVAILABLE",
+  504: "DEADLINE_EXCEEDED",
+};
+
+/**
+ * URL path of a request, without the origin and query string
+ */
+function requestPath(url: string): string {
+  return url.replace(/^[a-z]+:\/\/[^/]*/i, "").split("?")[0];
+}
+
+/**
+ * Build the error for a failed Firestore API response from its body, e.g.
+ * `{"error":{"code":404,"message":"...","status":"NOT_FOUND","details":[]}}`
+ * (runQuery wraps it in an array).
+ * @param method HTTP method of the request
+ * @param url Request URL
+ * @param status HTTP status of the response
+ * @param body Response body
+ * @returns FirestoreError (a FailedPreconditionError for FAILED_PRECONDITION)
+ */
+export function createFirestoreError(
+  method: string,
+  url: string,
+  status: number,
+  body: string
+): FirestoreError {
+  let error: { message?: string; status?: string; details?: unknown[] } = {};
+  try {
+    const parsed = JSON.parse(body);
+    error = (Array.isArray(parsed) ? parsed[0] : parsed)?.error ?? {};
+  } catch {
+    // Not a Google error response (e.g. a proxy error page)
+  }
+
+  const code =
+    (error.status as FirestoreErrorCode | undefined) ??
+    HTTP_STATUS_CODES[status] ??
+    "UNKNOWN";
+  const init: FirestoreErrorInit = {
+    status,
+    details: Array.isArray(error.details) ? error.details : [],
+    method,
+    path: requestPath(url),
+  };
+  const message = `Firestore API error: ${code}${
+    error.message ? ` - ${error.message}` : ""
+  } (${method} ${init.path})`;
+
+  return code === "FAILED_PRECONDITION"
+    ? new FailedPreconditionError(message, init)
+    : new FirestoreError(code, message, init);
+}
+
+/**
+ * Build the error for a request that was aborted through its signal: a
+ * timeout (an abort reason named `TimeoutError`, as used by
+ * `AbortSignal.timeout()`) is DEADLINE_EXCEEDED, anything else CANCELLED.
+ * @param method HTTP method of the request
+ * @param url Request URL
+ * @param reason Abort reason of the signal
+ * @returns FirestoreError
+ */
+export function createAbortError(
+  method: string,
+  url: string,
+  reason: unknown
+): FirestoreError {
+  const timedOut = (reason as Error | undefined)?.name === "TimeoutError";
+  const code: FirestoreErrorCode = timedOut ? "DEADLINE_EXCEEDED" : "CANCELLED";
+  const path = requestPath(url);
+  const detail = (reason as Error | undefined)?.message;
+  return new FirestoreError(
+    code,
+    `Firestore API error: ${code}${detail ? ` - ${detail}` : ""} (${method} ${path})`,
+    // The HTTP statuses Google APIs use for these codes
+    { status: timedOut ? 504 : 499, method, path }
+  );
+}
@@ -1,27 +1,113 @@
+/**
+ * The write behavior of a `FieldValue` sentinel, with the operand of the
+ * methods that take one.
+ */
+export type FieldValueOperation =
+  | { methodName: "serverTimestamp" | "delete" }
+  | { methodName: "increment" | "maximum" | "minimum"; operand: number }
+  | { methodName: "arrayUnion" | "arrayRemove"; operand: any[] };
+
 /**
  * Sentinel values for special write behaviors, mirroring the native Firebase
- * SDK's `FieldValue`. Currently only `serverTimestamp()` is supported.
+ * SDK's `FieldValue`: `serverTimestamp()`, `increment()`, `maximum()`,
+ * `minimum()`, `arrayUnion()`, `arrayRemove()` and `delete()`.
  *
  * A `FieldValue` is not a real field value: when used as a field in a write it
  * is translated into a Firestore field transform (applied server-side) rather
- * than serialized as data. Using one anywhere else (e.g. inside an array) is an
- * error.
+ * than serialized as data, or, for `delete()`, into an update-mask entry with
+ * no value. Using one anywhere else (e.g. inside an array) is an error.
  */
 export class FieldValue {
-  private constructor(readonly methodName: "serverTimestamp") {}
+  private constructor(readonly operation: FieldValueOperation) {}
+
+  /**
+   * Name of the `FieldValue` method that created this sentinel.
+   */
+  get methodName(): FieldValueOperation["methodName"] {
+    return this.operation.methodName;
+  }
 
   /**
    * Returns a sentinel that sets the field to the server's request timestamp at
    * write time, e.g. `client.add("posts", { createdAt: FieldValue.serverTimestamp() })`.
    */
   static serverTimestamp(): FieldValue {
-    return new FieldValue("serverTimestamp");
+    return new FieldValue({ methodName: "serverTimestamp" });
+  }
+
+  /**
+   * Returns a sentinel that atomically adds `n` to the field's current value,
+   * e.g. `ref.update({ visits: FieldValue.increment(1) })`. A missing or
+   * non-numeric field is treated as 0.
+   */
+  static increment(n: number): FieldValue {
+    return new FieldValue({
+      methodName: "increment",
+      operand: FieldValue.validateNumber("increment", n),
+    });
+  }
+
+  /**
+   * Returns a sentinel that sets the field to the larger of its current value
+   * and `n`. A missing or non-numeric field is set to `n`.
+   */
+  static maximum(n: number): FieldValue {
+    return new FieldValue({
+      methodName: "maximum",
+      operand: FieldValue.validateNumber("maximum", n),
+    });
+  }
+
+  /**
+   * Returns a sentinel that sets the field to the smaller of its current value
+   * and `n`. A missing or non-numeric field is set to `n`.
+   */
+  static minimum(n: number): FieldValue {
+    return new FieldValue({
+      methodName: "minimum",
+      operand: FieldValue.validateNumber("minimum", n),
+    });
+  }
+
+  /**
+   * Returns a sentinel that appends each element not already present to the
+   * array field. A missing or non-array field is replaced by the elements.
+   */
+  static arrayUnion(...elements: any[]): FieldValue {
+    return new FieldValue({ methodName: "arrayUnion", operand: elements });
+  }
+
+  /**
+   * Returns a sentinel that removes all instances of each element from the
+   * array field. A missing or non-array field is set to an empty array.
+   */
+  static arrayRemove(...elements: any[]): FieldValue {
+    return new FieldValue({ methodName: "arrayRemove", operand: elements });
+  }
+
+  /**
+   * Returns a sentinel that removes the field from the document, e.g.
+   * `ref.update({ nickname: FieldValue.delete() })`. Only valid in `update()`
+   * and in `set()` with `merge` / `mergeFields`.
+   */
+  static delete(): FieldValue {
+    return new FieldValue({ methodName: "delete" });
   }
 
   /**
    * Whether this sentinel represents the same transform as another.
    */
   isEqual(other: FieldValue): boolean {
-    return other instanceof FieldValue && other.methodName === this.methodName;
+    return (
+      other instanceof FieldValue &&
+      JSON.stringify(other.operation) === JSON.stringify(this.operation)
+    );
+  }
+
+  private static validateNumber(methodName: string, n: number): number {
+    if (typeof n !== "number") {
+      throw new Error(`FieldValue.${methodName}() requires a number.`);
+    }
+    return n;
   }
 }
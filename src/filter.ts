@@ -0,0 +1,80 @@
+/**
+ * A query filter, mirroring the native Firebase SDK's `Filter`. Field filters
+ * created with `Filter.where()` can be combined with `Filter.or()` and
+ * `Filter.and()` and nested arbitrarily, e.g.
+ *
+ * ```ts
+ * db.collection("tasks").where(
+ *   Filter.or(
+ *     Filter.where("status", "==", "open"),
+ *     Filter.where("assignee", "==", "me")
+ *   )
+ * );
+ * ```
+ *
+ * A `Filter` is only a description; it is translated into a Firestore
+ * `fieldFilter` / `compositeFilter` when the query is run.
+ */
+export class Filter {
+  private constructor(
+    readonly type: "field" | "or" | "and",
+    readonly fieldPath?: string,
+    readonly op?: string,
+    readonly value?: any,
+    readonly filters: Filter[] = []
+  ) {}
+
+  /**
+   * Returns a filter on a single field, e.g. `Filter.where("age", ">=", 18)`.
+   * Accepts the same operators as `Query.where()`. `null` and `NaN` can only be
+   * compared with `==` and `!=` (sent as `IS_NULL` / `IS_NAN` and their
+   * negations).
+   */
+  static where(fieldPath: string, opStr: string, value: any): Filter {
+    if (
+      (value === null || Number.isNaN(value)) &&
+      !["==", "!=", "EQUAL", "NOT_EQUAL"].includes(opStr)
+    ) {
+      throw new Error(
+        `Invalid query. Null and NaN only support '==' and '!=' comparisons, but '${opStr}' was used on '${fieldPath}'.`
+      );
+    }
+    return new Filter("field", fieldPath, opStr, value);
+  }
+
+  /**
+   * Returns a filter that matches documents matching any of the given filters.
+   */
+  static or(...filters: Filter[]): Filter {
+    return new Filter(
+      "or",
+      undefined,
+      undefined,
+      undefined,
+      Filter.validateFilters("or", filters)
+    );
+  }
+
+  /**
+   * Returns a filter that matches documents matching all of the given filters.
+   */
+  static and(...filters: Filter[]): Filter {
+    return new Filter(
+      "and",
+      undefined,
+      undefined,
+      undefined,
+      Filter.validateFilters("and", filters)
+    );
+  }
+
+  private static validateFilters(methodName: string, filters: Filter[]) {
+    if (filters.length === 0) {
+      throw new Error(`Filter.${methodName}() requires at least one filter.`);
+    }
+    if (!filters.every(filter => filter instanceof Filter)) {
+      throw new Error(`Filter.${methodName}() only accepts Filter instances.`);
+    }
+    return filters;
+  }
+}
@@ -16,6 +16,36 @@ import {
 
 // FieldValue センチネルのエクスポート
 export { FieldValue } from "./field-value";
+export type { FieldValueOperation } from "./field-value";
+
+// クエリフィルタのエクスポート
+export { Filter } from "./filter";
+
+// 集計クエリのエクスポート
+export {
+  AggregateField,
+  AggregateQuery,
+  AggregateQuerySnapshot,
+  count,
+  sum,
+  average,
+} from "./aggregate";
+export type { AggregateSpec, AggregateSpecData } from "./aggregate";
+
+// バッチ書き込み・トランザクションのエクスポート
+export { WriteBatch } from "./write-batch";
+export { Transaction } from "./transaction";
+
+// エラーのエクスポート
+export { FirestoreError, FailedPreconditionError } from "./errors";
+export type { FirestoreErrorCode } from "./errors";
+
+// 認証情報プロバイダのエクスポート
+export {
+  AccessTokenCredentials,
+  MetadataServerCredentials,
+  ServiceAccountCredentials,
+} from "./credentials";
 
 // ユーティリティ関数のエクスポート
 export { getFirestoreToken } from "./utils/auth";
@@ -40,3 +70,4 @@ export {
   DocumentSnapshot,
   WriteResult,
 };
+export type { WrittenDocument } from "./client";
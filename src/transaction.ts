@@ -0,0 +1,159 @@
+import { DocumentReference, DocumentSnapshot, FirestoreClient } from "./client";
+import {
+  MergeSetOptions,
+  NoInferData,
+  Precondition,
+  RequestOptions,
+  SetOptions,
+  UpdateData,
+} from "./types";
+import { WriteBatch } from "./write-batch";
+
+/**
+ * A read-write transaction, passed to the function given to
+ * `client.runTransaction()`. Reads go through the transaction ID so Firestore
+ * can detect conflicting writes; writes are buffered and committed atomically
+ * when the function resolves.
+ *
+ * As in the native SDK, all reads must happen before any writes.
+ */
+export class Transaction {
+  private client: FirestoreClient;
+  private transactionId: string;
+  private batch: WriteBatch;
+  private signal?: AbortSignal;
+
+  /**
+   * @param client Firestore client
+   * @param transactionId Transaction ID
+   * @param options `signal` to cancel the transaction's requests (optional)
+   */
+  constructor(
+    client: FirestoreClient,
+    transactionId: string,
+    options: RequestOptions = {}
+  ) {
+    this.client = client;
+    this.transactionId = transactionId;
+    this.batch = new WriteBatch(client);
+    this.signal = options.signal;
+  }
+
+  /**
+   * Read a document within this transaction
+   * @param documentRef Document reference
+   * @returns DocumentSnapshot instance
+   */
+  async get<T>(
+    documentRef: DocumentReference<T>
+  ): Promise<DocumentSnapshot<T>> {
+    this.verifyNoWrites();
+    return this.client.getSnapshot(documentRef, {
+      transaction: this.transactionId,
+      signal: this.signal,
+    });
+  }
+
+  /**
+   * Read multiple documents within this transaction in a single request
+   * @param documentRefs Document references
+   * @returns One DocumentSnapshot per reference, in the requested order
+   */
+  async getAll<T>(
+    ...documentRefs: DocumentReference<T>[]
+  ): Promise<DocumentSnapshot<T>[]> {
+    this.verifyNoWrites();
+    return this.client.getAll(...documentRefs, {
+      transaction: this.transactionId,
+      signal: this.signal,
+    });
+  }
+
+  /**
+   * Create a document. The commit fails if the document already exists.
+   * @param documentRef Document reference
+   * @param data Document data
+   * @returns This transaction, for chaining
+   */
+  create<T>(documentRef: DocumentReference<T>, data: T): Transaction {
+    this.batch.create(documentRef, data);
+    return this;
+  }
+
+  /**
+   * Create or overwrite a document, or merge into it with `merge` /
+   * `mergeFields`
+   * @param documentRef Document reference
+   * @param data Document data
+   * @param options Set options
+   * @returns This transaction, for chaining
+   */
+  set<T>(
+    documentRef: DocumentReference<T>,
+    data: NoInferData<T>,
+    options?: SetOptions
+  ): Transaction;
+  set<T>(
+    documentRef: DocumentReference<T>,
+    data: NoInferData<Partial<T>>,
+    options: MergeSetOptions
+  ): Transaction;
+  set<T>(
+    documentRef: DocumentReference<T>,
+    data: T | Partial<T>,
+    options?: SetOptions
+  ): Transaction {
+    this.batch.set(documentRef, data as T, options);
+    return this;
+  }
+
+  /**
+   * Update fields of an existing document (keys may be dot-separated paths)
+   * @param documentRef Document reference
+   * @param data Fields to update
+   * @param precondition Precondition for the update (defaults to `exists: true`)
+   * @returns This transaction, for chaining
+   */
+  update<T>(
+    documentRef: DocumentReference<T>,
+    data: UpdateData<T>,
+    precondition?: Precondition
+  ): Transaction {
+    this.batch.update(documentRef, data, precondition);
+    return this;
+  }
+
+  /**
+   * Delete a document
+   * @param documentRef Document reference
+   * @param precondition Precondition for the delete
+   * @returns This transaction, for chaining
+   */
+  delete<T>(
+    documentRef: DocumentReference<T>,
+    precondition?: Precondition
+  ): Transaction {
+    this.batch.delete(documentRef, precondition);
+    return this;
+  }
+
+  /**
+   * Commit the buffered writes (called by `runTransaction()`)
+   */
+  async _commit(): Promise<void> {
+    await this.client.commitWrites(this.batch._writes, this.transactionId, {
+      signal: this.signal,
+    });
+  }
+
+  /**
+   * @private
+   */
+  private verifyNoWrites() {
+    if (this.batch._writes.length > 0) {
+      throw new Error(
+        "Firestore transactions require all reads to be executed before all writes."
+      );
+    }
+  }
+}
@@ -1,15 +1,183 @@
+import { DocumentReference, DocumentSnapshot } from "./client";
+import { FirestoreErrorCode } from "./errors";
+import { FieldValue } from "./field-value";
+import { Filter } from "./filter";
+
 /**
  * Firestoreクライアントの設定インターフェース
  */
 export interface FirestoreConfig {
   projectId: string;
-  privateKey: string;
-  clientEmail: string;
+  privateKey?: string;
+  clientEmail?: string;
+  credentials?: CredentialProvider;
   databaseId?: string;
   debug?: boolean;
   useEmulator?: boolean;
   emulatorHost?: string;
   emulatorPort?: number;
+  retry?: RetryOptions | false;
+  timeout?: number;
+  fetch?: typeof fetch;
+  interceptors?: RequestInterceptor[];
+  logger?: Logger;
+}
+
+/**
+ * Structured context attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives the client's log output. Secrets (the private key, credentials,
+ * access tokens and `Authorization` headers) are redacted from `fields` before they are
+ * passed on. Without a logger nothing is logged, unless `debug` is set, in
+ * which case everything goes to the console.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * An OAuth 2.0 access token for the Firestore API
+ */
+export interface AccessToken {
+  token: string;
+  /**
+   * When the token expires, in milliseconds since the epoch. Tokens without
+   * an expiry are not cached: the provider is asked again for every request.
+   */
+  expiresAt?: number;
+}
+
+/**
+ * An access token, or a function that returns the current one
+ */
+export type AccessTokenSource =
+  | string
+  | (() => string | AccessToken | Promise<string | AccessToken>);
+
+/**
+ * What the client gives a credential provider to fetch a token with
+ */
+export interface CredentialContext {
+  /**
+   * Send a request with the client's fetch, interceptors and timeout. It is
+   * cancelled with `signal` unless `init` has a signal of its own. The body
+   * is read before the response is returned, so the timeout covers it.
+   */
+  fetch(url: string, init: RequestInit): Promise<Response>;
+  /**
+   * Signal of the request the token is for, if any
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Supplies access tokens for requests to Firestore. Given as `credentials`
+ * in the config; without it, the service account key in the config is used
+ * (see ServiceAccountCredentials, AccessTokenCredentials and
+ * MetadataServerCredentials).
+ */
+export interface CredentialProvider {
+  getAccessToken(context: CredentialContext): Promise<AccessToken>;
+}
+
+/**
+ * Service account key used to sign the JWT exchanged for an access token
+ */
+export interface ServiceAccountKey {
+  clientEmail: string;
+  privateKey: string;
+}
+
+/**
+ * Where to get tokens from the metadata server of the environment (Compute
+ * Engine, Cloud Run, Cloud Functions, GKE with workload identity).
+ * - `host`: host and optional port of the metadata server (default
+ *   `metadata.google.internal`), e.g. a local stand-in in tests
+ * - `serviceAccount`: service account attached to the environment to get a
+ *   token for (default `default`)
+ * - `scopes`: OAuth scopes to request (default: the scopes of the account)
+ */
+export interface MetadataServerOptions {
+  host?: string;
+  serviceAccount?: string;
+  scopes?: string[];
+}
+
+/**
+ * An HTTP request as seen by interceptors
+ */
+export interface InterceptedRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Hooks around every HTTP request made by the client, including the OAuth
+ * token exchange. Interceptors run in the order given, once per attempt when
+ * a request is retried.
+ * - `onRequest`: called before the request is sent; may return a replacement
+ *   request (e.g. with extra headers)
+ * - `onResponse`: called with every response, including error responses; may
+ *   return a replacement response
+ * - `onError`: called when the request could not be sent (e.g. a network
+ *   failure) or a hook threw; the error is rethrown afterwards
+ */
+export interface RequestInterceptor {
+  onRequest?(
+    request: InterceptedRequest
+  ): InterceptedRequest | void | Promise<InterceptedRequest | void>;
+  onResponse?(
+    response: Response,
+    request: InterceptedRequest
+  ): Response | void | Promise<Response | void>;
+  onError?(error: unknown, request: InterceptedRequest): void | Promise<void>;
+}
+
+/**
+ * Time source for retry delays. Replace it (e.g. in tests) to control time
+ * instead of waiting for real timers.
+ */
+export interface Clock {
+  /**
+   * Current time in milliseconds since the epoch
+   */
+  now(): number;
+  /**
+   * Resolve after the given number of milliseconds
+   */
+  sleep(ms: number): Promise<void>;
+}
+
+/**
+ * Retry policy for requests that fail with a transient error. Pass `false`
+ * as `retry` in the config to disable retries.
+ * - `maxAttempts`: attempts per request, including the first (default 5)
+ * - `baseDelayMs`: delay before the first retry, doubled for each further
+ *   retry and randomized by up to half (default 100)
+ * - `maxDelayMs`: upper bound of the backoff delay (default 10000)
+ * - `retryableCodes`: error codes that are retried (default `ABORTED`,
+ *   `RESOURCE_EXHAUSTED`, `UNAVAILABLE`, `INTERNAL`, `DEADLINE_EXCEEDED`)
+ * - `clock`: time source for the delays
+ *
+ * A `Retry-After` header from the server takes precedence over the backoff
+ * delay, capped at `maxDelayMs`. Requests that are not idempotent (`add()`,
+ * commits, and writes with a precondition that a first attempt may break)
+ * are only retried on `RESOURCE_EXHAUSTED`, which means the request was not
+ * applied. Reads within a transaction are not retried on
+ * `ABORTED`: runTransaction() retries the whole transaction instead.
+ */
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  retryableCodes?: FirestoreErrorCode[];
+  clock?: Clock;
 }
 
 /**
@@ -124,20 +292,202 @@ export type FirestoreFieldValue =
  * A Firestore field transform applied server-side during a commit write.
  * See: https://firebase.google.com/docs/firestore/reference/rest/v1/Write#FieldTransform
  */
-export interface FieldTransform {
-  fieldPath: string;
-  setToServerValue: "REQUEST_TIME";
-}
+export type FieldTransform = { fieldPath: string } & (
+  | { setToServerValue: "REQUEST_TIME" }
+  | { increment: FirestoreFieldValue }
+  | { maximum: FirestoreFieldValue }
+  | { minimum: FirestoreFieldValue }
+  | { appendMissingElements: { values: FirestoreFieldValue[] } }
+  | { removeAllFromArray: { values: FirestoreFieldValue[] } }
+);
 
 /**
- * A single write in a `documents:commit` request.
+ * A single write in a `documents:commit` request. Exactly one of `update` /
+ * `delete` is set.
+ * See: https://firebase.google.com/docs/firestore/reference/rest/v1/Write
  */
 export interface CommitWrite {
-  update: { name: string; fields: Record<string, FirestoreFieldValue> };
+  update?: { name: string; fields: Record<string, FirestoreFieldValue> };
+  delete?: string;
+  updateMask?: { fieldPaths: string[] };
   updateTransforms?: FieldTransform[];
   currentDocument?: { exists?: boolean; updateTime?: string };
 }
 
+/**
+ * Response body of `documents:commit`. `writeResults` has one entry per write,
+ * in request order.
+ */
+export interface CommitResponse {
+  writeResults?: Array<{
+    updateTime?: string;
+    transformResults?: FirestoreFieldValue[];
+  }>;
+  commitTime: string;
+}
+
+/**
+ * A condition the document must meet for a write to be applied, for
+ * optimistic concurrency. At most one of the fields may be set.
+ * - `exists`: whether the document must exist (fails with NOT_FOUND /
+ *   ALREADY_EXISTS otherwise)
+ * - `lastUpdateTime`: the document must exist and have been last changed at
+ *   exactly this time, e.g. a snapshot's `updateTime` or a WriteResult's
+ *   `writeTime` (fails with a FailedPreconditionError otherwise)
+ */
+export interface Precondition {
+  exists?: boolean;
+  lastUpdateTime?: Date;
+}
+
+/**
+ * Options for `set()`. Without options the document is overwritten.
+ * - `merge`: merge the data into the existing document (server side) instead
+ *   of overwriting it; nested maps are merged rather than replaced
+ * - `mergeFields`: only write the listed field paths from the data
+ * - `exists` / `lastUpdateTime`: a precondition for the write
+ */
+export interface SetOptions extends Precondition {
+  merge?: boolean;
+  mergeFields?: string[];
+}
+
+/**
+ * `T`, without inferring a type parameter from it (like `NoInfer` in
+ * TypeScript 5.4+): data passed with a typed reference is checked against the
+ * reference's type instead of widening it.
+ */
+export type NoInferData<T> = [T][T extends any ? 0 : never];
+
+/**
+ * `set()` options that merge into the existing document, the only ones that
+ * accept partial data.
+ */
+export type MergeSetOptions = SetOptions &
+  ({ merge: true } | { mergeFields: string[] });
+
+/**
+ * Options accepted by every operation that sends requests.
+ * - `signal`: cancels the operation when aborted, failing it with a
+ *   CANCELLED FirestoreError (DEADLINE_EXCEEDED if the signal timed out, as
+ *   with `AbortSignal.timeout()`)
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for batch reads with `getAll()`.
+ * - `fieldMask`: only return these (dot-separated) field paths
+ * - `transaction`: read within this transaction
+ * - `readTime`: read the documents as they were at this time
+ */
+export interface ReadOptions extends RequestOptions {
+  fieldMask?: string[];
+  transaction?: string;
+  readTime?: Date;
+}
+
+/**
+ * A filter in a `runQuery` structured query.
+ * See: https://firebase.google.com/docs/firestore/reference/rest/v1/StructuredQuery#Filter
+ */
+export type StructuredQueryFilter =
+  | {
+      fieldFilter: {
+        field: { fieldPath: string };
+        op: string;
+        value: FirestoreFieldValue;
+      };
+    }
+  | {
+      unaryFilter: {
+        op: "IS_NULL" | "IS_NAN" | "IS_NOT_NULL" | "IS_NOT_NAN";
+        field: { fieldPath: string };
+      };
+    }
+  | {
+      compositeFilter: {
+        op: "AND" | "OR";
+        filters: StructuredQueryFilter[];
+      };
+    };
+
+/**
+ * Plain document data, as read from and written to Firestore.
+ */
+export type DocumentData = Record<string, any>;
+
+/**
+ * Converts between a model type `T` and plain document data, mirroring the
+ * native Firebase SDK's `FirestoreDataConverter`. Applied with
+ * `withConverter()` on references and queries.
+ * - `toFirestore`: called by `set()` / `add()` / `create()`; with merge
+ *   options it receives a partial model and the options
+ * - `fromFirestore`: called by `DocumentSnapshot.data()` with a snapshot of
+ *   the plain data
+ */
+export interface FirestoreDataConverter<T> {
+  toFirestore(modelObject: T): DocumentData;
+  toFirestore(modelObject: Partial<T>, options: SetOptions): DocumentData;
+  fromFirestore(snapshot: DocumentSnapshot): T;
+}
+
+/**
+ * Values that `UpdateData` does not descend into
+ */
+type UpdateDataLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | null
+  | undefined
+  | Date
+  | readonly unknown[]
+  | Function
+  | FieldValue
+  | DocumentReference<any>
+  | LiteralDocumentReference
+  | LiteralGeoPointValue;
+
+/**
+ * Update data for a document of type `T`, as accepted by `update()`: any
+ * subset of the top-level fields, plus dot-separated paths into nested maps
+ * (e.g. `{ "address.city": "Tokyo" }`). Every field can also be given a
+ * `FieldValue` sentinel. Unknown field paths are rejected at compile time.
+ */
+export type UpdateData<T> = T extends UpdateDataLeaf
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: UpdateData<T[K]> | FieldValue } & NestedUpdateFields<T>
+    : Partial<T>;
+
+/**
+ * Dot-separated paths into the nested maps of `T`, with their update values
+ */
+type NestedUpdateFields<T> = UnionToIntersection<
+  {
+    [K in keyof T & string]: ChildUpdateFields<K, T[K]>;
+  }[keyof T & string]
+>;
+
+type ChildUpdateFields<K extends string, V> = V extends UpdateDataLeaf
+  ? never
+  : V extends object
+    ? AddPrefixToKeys<K, UpdateData<V>>
+    : never;
+
+type AddPrefixToKeys<Prefix extends string, T> = {
+  [K in keyof T & string as `${Prefix}.${K}`]+?: string extends K ? any : T[K];
+};
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (k: U) => void : never
+) extends (k: infer I) => void
+  ? I
+  : never;
+
 /**
  * Firestoreドキュメント型
  */
@@ -158,13 +508,71 @@ export interface FirestoreResponse {
   updateTime?: string;
 }
 
+/**
+ * An item of a `runQuery` response. Items without a `document` only report
+ * progress (e.g. the read time of an empty result).
+ */
+export interface RunQueryResponseItem {
+  document?: FirestoreResponse;
+  readTime?: string;
+}
+
+/**
+ * Server timestamps of a DocumentSnapshot.
+ * - `createTime` / `updateTime`: when the document was created / last changed
+ *   (unset if it doesn't exist)
+ * - `readTime`: when the document was read (unset for single-document reads,
+ *   which the REST API doesn't timestamp)
+ */
+export interface SnapshotMetadata {
+  createTime?: Date;
+  updateTime?: Date;
+  readTime?: Date;
+}
+
+/**
+ * A position in a query's ordering, used by `startAt` / `endAt`.
+ * - `values`: values of the ordered fields, in `orderBy` order
+ * - `before`: whether the position is just before the values (`true`) or just
+ *   after them (`false`)
+ */
+export interface QueryCursor {
+  values: any[];
+  before: boolean;
+}
+
+/**
+ * A single query ordering.
+ */
+export interface QueryOrdering {
+  field: string;
+  direction?: "ASCENDING" | "DESCENDING";
+}
+
 /**
  * クエリオプション型
+ * `orderBy` is either a single field (sorted by `orderDirection`) or a list of
+ * orderings applied in order. `limitToLast` returns the last matching
+ * documents in the requested order and requires at least one ordering.
+ * `select` only returns the listed field paths; an empty list returns only
+ * the document names (IDs).
  */
 export interface QueryOptions {
-  where?: Array<{ field: string; op: string; value: any }>;
-  orderBy?: string;
+  where?: Array<{ field: string; op: string; value: any } | Filter>;
+  orderBy?: string | QueryOrdering[];
   orderDirection?: string;
   limit?: number;
+  limitToLast?: number;
   offset?: number;
+  startAt?: QueryCursor;
+  endAt?: QueryCursor;
+  select?: string[];
+}
+
+/**
+ * Options for `stream()`.
+ * - `pageSize`: maximum number of documents fetched per request (default 1000)
+ */
+export interface StreamOptions extends RequestOptions {
+  pageSize?: number;
 }
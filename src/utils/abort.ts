@@ -0,0 +1,68 @@
+/**
+ * Combine the caller's abort signal with a timeout. The timeout aborts with a
+ * `TimeoutError`, like `AbortSignal.timeout()`.
+ * @param signal Caller's signal (optional)
+ * @param timeout Timeout in milliseconds (optional)
+ * @returns The signal to send requests with (undefined if there is neither a
+ * signal nor a timeout) and a function that stops the timer and stops
+ * following the caller's signal
+ */
+export function withTimeout(
+  signal: AbortSignal | undefined,
+  timeout: number | undefined
+): { signal: AbortSignal | undefined; clear: () => void } {
+  if (!timeout) {
+    return { signal, clear: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new DOMException(
+          `The operation timed out after ${timeout}ms.`,
+          "TimeoutError"
+        )
+      ),
+    timeout
+  );
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Reject with the abort reason if the signal aborts before the promise
+ * settles
+ * @param promise Promise to wait for
+ * @param signal Abort signal (optional)
+ * @returns Promise settling like the given one, or rejecting on abort
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
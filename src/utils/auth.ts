@@ -1,66 +1,164 @@
 import * as jose from "jose";
-import { FirestoreConfig } from "../types";
+import {
+  AccessToken,
+  CredentialContext,
+  FirestoreConfig,
+  ServiceAccountKey,
+} from "../types";
+import { createAbortError, createFirestoreError } from "../errors";
+import { abortable, withTimeout } from "./abort";
+import { sendRequest } from "./http";
+
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
 
 /**
  * Function to create a JWT (JSON Web Token)
- * @param config Firestore configuration
+ * @param key Service account key
  * @returns JWT string
  */
-export async function createJWT(config: FirestoreConfig): Promise<string> {
+export async function createJWT(key: ServiceAccountKey): Promise<string> {
   const now = Math.floor(Date.now() / 1000);
   const payload = {
-    iss: config.clientEmail,
-    sub: config.clientEmail,
-    aud: "https://oauth2.googleapis.com/token",
+    iss: key.clientEmail,
+    sub: key.clientEmail,
+    aud: TOKEN_URL,
     iat: now,
     exp: now + 3600, // Expires in 1 hour
     scope: "https://www.googleapis.com/auth/datastore",
   };
 
-  try {
-    // Import the private key
-    const privateKey = await jose.importPKCS8(config.privateKey, "RS256");
+  // Import the private key
+  const privateKey = await jose.importPKCS8(key.privateKey, "RS256");
 
-    // Create JWT
-    const token = await new jose.SignJWT(payload)
-      .setProtectedHeader({
-        alg: "RS256",
-        typ: "JWT",
-      })
-      .sign(privateKey);
+  // Create JWT
+  return new jose.SignJWT(payload)
+    .setProtectedHeader({
+      alg: "RS256",
+      typ: "JWT",
+    })
+    .sign(privateKey);
+}
+
+/**
+ * Build the context credential providers fetch tokens with: requests go
+ * through the configured fetch and interceptors, bounded by the configured
+ * timeout and cancelled with the signal of the request the token is for
+ * @param config Firestore configuration
+ * @param signal Signal of the request the token is for (optional)
+ * @returns Credential context
+ */
+export function createCredentialContext(
+  config: Pick<FirestoreConfig, "fetch" | "interceptors" | "timeout">,
+  signal?: AbortSignal
+): CredentialContext {
+  return {
+    signal,
+    fetch: async (url, init) => {
+      const request = withTimeout(init.signal ?? signal, config.timeout);
+      try {
+        const response = await sendRequest(config, url, {
+          ...init,
+          signal: request.signal,
+        });
+        // Read the body while the timeout and the signal still apply
+        const body = await abortable(response.text(), request.signal);
+        return new Response(body || null, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        });
+      } catch (error) {
+        if (request.signal?.aborted) {
+          throw createAbortError(
+            init.method ?? "GET",
+            url,
+            request.signal.reason
+          );
+        }
+        throw error;
+      } finally {
+        request.clear();
+      }
+    },
+  };
+}
 
-    return token;
-  } catch (error) {
-    console.error("Error creating JWT:", error);
-    throw error;
+/**
+ * Read an OAuth token response, e.g.
+ * `{"access_token":"...","expires_in":3599,"token_type":"Bearer"}`
+ * @param method HTTP method of the request
+ * @param url Request URL
+ * @param response Token endpoint response
+ * @returns Access token, expiring after `expires_in` seconds
+ */
+export async function readTokenResponse(
+  method: string,
+  url: string,
+  response: Response
+): Promise<AccessToken> {
+  if (!response.ok) {
+    throw createFirestoreError(
+      method,
+      url,
+      response.status,
+      await response.text()
+    );
   }
+  const data = (await response.json()) as {
+    access_token: string;
+    expires_in?: number;
+  };
+  return {
+    token: data.access_token,
+    expiresAt:
+      data.expires_in !== undefined
+        ? Date.now() + data.expires_in * 1000
+        : undefined,
+  };
 }
 
 /**
- * Function to get Firestore authentication token
- * @param config Firestore configuration
+ * Exchange a JWT signed with a service account key for an access token
+ * @param context Credential context to send the request with
+ * @param key Service account key
  * @returns Access token
  */
-export async function getFirestoreToken(
-  config: FirestoreConfig
-): Promise<string> {
-  // No authentication in emulator mode (returns a dummy token)
-  if (config.useEmulator) {
-    return "firebase-emulator-auth-token";
-  }
-  
-  // Normal authentication process
-  const response = await fetch("https://oauth2.googleapis.com/token", {
+export async function exchangeJWT(
+  context: CredentialContext,
+  key: ServiceAccountKey
+): Promise<AccessToken> {
+  const response = await context.fetch(TOKEN_URL, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
       grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
-      assertion: await createJWT(config),
+      assertion: await createJWT(key),
     }),
   });
+  return readTokenResponse("POST", TOKEN_URL, response);
+}
+
+/**
+ * Function to get Firestore authentication token
+ * @param config Firestore configuration
+ * @param signal Signal of the request the token is for (optional)
+ * @returns Access token
+ */
+export async function getFirestoreToken(
+  config: FirestoreConfig,
+  signal?: AbortSignal
+): Promise<string> {
+  // No authentication in emulator mode (returns a dummy token)
+  if (config.useEmulator) {
+    return "firebase-emulator-auth-token";
+  }
 
-  const data = (await response.json()) as { access_token: string };
-  return data.access_token;
+  // Normal authentication process, bounded by the configured timeout
+  const { token } = await exchangeJWT(createCredentialContext(config, signal), {
+    clientEmail: config.clientEmail ?? "",
+    privateKey: config.privateKey ?? "",
+  });
+  return token;
 }
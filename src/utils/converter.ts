@@ -1,15 +1,23 @@
+import { AggregateField } from "../aggregate";
 import { DocumentReference } from "../client"
 import { FieldValue } from "../field-value";
+import { Filter } from "../filter";
 import {
   CommitWrite,
+  DocumentData,
   FieldTransform,
   FirestoreDocument,
+  FirestoreDataConverter,
   FirestoreFieldValue,
   FirestoreResponse,
   LiteralDocumentReference,
   LiteralGeoPointValue,
+  Precondition,
+  SetOptions,
+  StructuredQueryFilter,
 } from "../types";
 import { getDocumentId } from "./path";
+import { formatTimestamp, parseTimestamp } from "./timestamp";
 
 /**
  * JSの値をFirestore形式に変換する
@@ -22,11 +30,11 @@ export function convertToFirestoreValue(value: any): FirestoreFieldValue {
     // before conversion. Reaching here means one was used where Firestore
     // cannot express a transform (such as inside an array).
     throw new Error(
-      "FieldValue (e.g. serverTimestamp()) can only be used as a top-level or nested document field value, not inside an array."
+      "FieldValue (e.g. serverTimestamp(), increment()) can only be used as a top-level or nested document field value, not inside an array."
     );
   }
   if (value instanceof Date) {
-    return { timestampValue: value.toISOString() };
+    return { timestampValue: formatTimestamp(value) };
   } else if (value instanceof DocumentReference) {
     return { referenceValue: value.referenceValue };
   } else if (value instanceof LiteralDocumentReference) {
@@ -83,7 +91,7 @@ export function convertFromFirestoreValue(
   } else if ("nullValue" in firestoreValue) {
     return null;
   } else if ("timestampValue" in firestoreValue) {
-    return new Date(firestoreValue.timestampValue);
+    return parseTimestamp(firestoreValue.timestampValue);
   } else if ("geoPointValue" in firestoreValue) {
     return new LiteralGeoPointValue(firestoreValue)
   } else if ("referenceValue" in firestoreValue) {
@@ -135,6 +143,26 @@ function isPlainObject(value: any): boolean {
   return proto === Object.prototype || proto === null;
 }
 
+/**
+ * Whether a value is the `FieldValue.delete()` sentinel.
+ */
+function isDeleteSentinel(value: any): boolean {
+  return value instanceof FieldValue && value.methodName === "delete";
+}
+
+/**
+ * Whether write data contains a `FieldValue.delete()` sentinel anywhere inside
+ * a (nested) plain object.
+ */
+function containsDeleteSentinel(value: any): boolean {
+  return (
+    isPlainObject(value) &&
+    Object.values(value).some(
+      item => isDeleteSentinel(item) || containsDeleteSentinel(item)
+    )
+  );
+}
+
 /**
  * Escape a single field name for use in a Firestore field path. Simple names
  * (`[A-Za-z_][A-Za-z0-9_]*`) are used as-is; anything else (dashes, dots,
@@ -150,21 +178,163 @@ function escapeFieldPathSegment(segment: string): string {
   return "`" + segment.replace(/\\/g, "\\\\").replace(/`/g, "\\`") + "`";
 }
 
+/**
+ * Split a Firestore field path into field names, undoing
+ * escapeFieldPathSegment(): names are separated by dots, and a name in
+ * backticks may contain any character, with `\` and `` ` `` escaped by a
+ * backslash.
+ * @param fieldPath Field path (e.g. `` address.`zip-code` ``)
+ * @returns Field names
+ */
+export function parseFieldPath(fieldPath: string): string[] {
+  const segments: string[] = [];
+  let segment = "";
+  let quoted = false;
+  for (let i = 0; i < fieldPath.length; i++) {
+    const char = fieldPath[i];
+    if (quoted && char === "\\" && i + 1 < fieldPath.length) {
+      segment += fieldPath[++i];
+    } else if (char === "`") {
+      quoted = !quoted;
+    } else if (char === "." && !quoted) {
+      segments.push(segment);
+      segment = "";
+    } else {
+      segment += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Invalid field path: "${fieldPath}"`);
+  }
+  segments.push(segment);
+  return segments;
+}
+
+/**
+ * Get a field of an API document as stored, without converting it to a JS
+ * value (which would lose e.g. microseconds or large integers).
+ * @param fields API document fields
+ * @param fieldPath Field path
+ * @returns Firestore value, or undefined if the field is missing
+ */
+export function getFirestoreField(
+  fields: Record<string, FirestoreFieldValue> | undefined,
+  fieldPath: string
+): FirestoreFieldValue | undefined {
+  let value: FirestoreFieldValue | undefined = {
+    mapValue: { fields: fields ?? {} },
+  };
+  for (const segment of parseFieldPath(fieldPath)) {
+    value =
+      value && "mapValue" in value
+        ? value.mapValue.fields?.[segment]
+        : undefined;
+  }
+  return value;
+}
+
+/**
+ * Copy the fields of an API document without a field. Maps left empty by its
+ * removal are removed as well.
+ * @param fields API document fields
+ * @param fieldPath Field path
+ * @returns Fields without the field (the given fields if it is missing)
+ */
+export function deleteFirestoreField(
+  fields: Record<string, FirestoreFieldValue>,
+  fieldPath: string
+): Record<string, FirestoreFieldValue> {
+  const remove = (
+    fields: Record<string, FirestoreFieldValue>,
+    [name, ...rest]: string[]
+  ): Record<string, FirestoreFieldValue> => {
+    const value = fields[name];
+    if (value === undefined || (rest.length > 0 && !("mapValue" in value))) {
+      return fields;
+    }
+    const others = { ...fields };
+    delete others[name];
+    if (rest.length === 0 || !("mapValue" in value)) {
+      return others;
+    }
+    const nested = remove(value.mapValue.fields ?? {}, rest);
+    if (nested === value.mapValue.fields) {
+      return fields;
+    }
+    return Object.keys(nested).length > 0
+      ? { ...fields, [name]: { mapValue: { fields: nested } } }
+      : others;
+  };
+  return remove(fields, parseFieldPath(fieldPath));
+}
+
+/**
+ * Translate a `FieldValue` sentinel into the Firestore field transform for the
+ * given (escaped) field path.
+ */
+function toFieldTransform(
+  fieldPath: string,
+  value: FieldValue
+): FieldTransform {
+  const { operation } = value;
+  switch (operation.methodName) {
+    case "serverTimestamp":
+      return { fieldPath, setToServerValue: "REQUEST_TIME" };
+    case "increment":
+      return {
+        fieldPath,
+        increment: convertToFirestoreValue(operation.operand),
+      };
+    case "maximum":
+      return {
+        fieldPath,
+        maximum: convertToFirestoreValue(operation.operand),
+      };
+    case "minimum":
+      return {
+        fieldPath,
+        minimum: convertToFirestoreValue(operation.operand),
+      };
+    case "arrayUnion":
+      return {
+        fieldPath,
+        appendMissingElements: {
+          values: operation.operand.map(item => convertToFirestoreValue(item)),
+        },
+      };
+    case "arrayRemove":
+      return {
+        fieldPath,
+        removeAllFromArray: {
+          values: operation.operand.map(item => convertToFirestoreValue(item)),
+        },
+      };
+    default:
+      throw new Error(`Unsupported FieldValue: ${value.methodName}`);
+  }
+}
+
 /**
  * Split write data into plain field values and Firestore field transforms.
  *
- * `FieldValue` sentinels (e.g. `serverTimestamp()`) are pulled out into
- * transforms keyed by their (escaped, dot-separated) field path; everything
- * else is left untouched in `fields`. Recursion only descends into plain
- * objects, so class instances (Date / references / geo points) are treated as
- * leaves.
+ * `FieldValue` sentinels (e.g. `serverTimestamp()`, `increment()`) are pulled
+ * out into transforms keyed by their (escaped, dot-separated) field path;
+ * everything else is left untouched in `fields`. Recursion only descends into
+ * plain objects, so class instances (Date / references / geo points) are
+ * treated as leaves.
+ *
+ * `FieldValue.delete()` sentinels are dropped from `fields` (the caller puts
+ * their paths in the update mask) when `allowDeletes` is set, and rejected
+ * otherwise, since a write without a mask cannot delete a field.
  *
  * @param data Write data (JS values, may contain FieldValue sentinels)
  * @param prefix Field-path prefix used while recursing (internal, pre-escaped)
+ * @param allowDeletes Whether `FieldValue.delete()` is valid in this write
  */
 export function extractFieldTransforms(
   data: Record<string, any>,
-  prefix: string = ""
+  prefix: string = "",
+  allowDeletes: boolean = false
 ): { fields: Record<string, any>; transforms: FieldTransform[] } {
   const fields: Record<string, any> = {};
   const transforms: FieldTransform[] = [];
@@ -173,14 +343,16 @@ export function extractFieldTransforms(
     const escapedKey = escapeFieldPathSegment(key);
     const fieldPath = prefix ? `${prefix}.${escapedKey}` : escapedKey;
 
-    if (value instanceof FieldValue) {
-      if (value.methodName === "serverTimestamp") {
-        transforms.push({ fieldPath, setToServerValue: "REQUEST_TIME" });
-      } else {
-        throw new Error(`Unsupported FieldValue: ${value.methodName}`);
+    if (isDeleteSentinel(value)) {
+      if (!allowDeletes) {
+        throw new Error(
+          "FieldValue.delete() can only be used with update() or set() with merge / mergeFields."
+        );
       }
+    } else if (value instanceof FieldValue) {
+      transforms.push(toFieldTransform(fieldPath, value));
     } else if (isPlainObject(value)) {
-      const nested = extractFieldTransforms(value, fieldPath);
+      const nested = extractFieldTransforms(value, fieldPath, allowDeletes);
       fields[key] = nested.fields;
       transforms.push(...nested.transforms);
     } else {
@@ -191,25 +363,184 @@ export function extractFieldTransforms(
   return { fields, transforms };
 }
 
+/**
+ * Expand update data keyed by dot-separated field paths (e.g.
+ * `{ "favorites.color": "red" }`) into nested write data, and collect the
+ * escaped field paths that make up the update mask.
+ *
+ * `FieldValue` sentinels are left out of the mask since they are applied as
+ * field transforms instead, except `FieldValue.delete()`, whose path is masked
+ * without a value so the field is removed. A delete nested inside a map value
+ * is rejected, as is a path that is a prefix of another path in the same
+ * update (e.g. `a` and `a.b`), as in the native SDK.
+ *
+ * @param data Update data (keys are field paths)
+ * @returns Nested data and the update-mask field paths
+ */
+export function expandFieldPaths(data: Record<string, any>): {
+  data: Record<string, any>;
+  fieldPaths: string[];
+} {
+  const nested: Record<string, any> = {};
+  const fieldPaths: string[] = [];
+  const seen: string[][] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    const segments = key.split(".");
+    if (segments.some(segment => segment === "")) {
+      throw new Error(`Invalid field path: "${key}"`);
+    }
+    const conflict = seen.find(other =>
+      other.length <= segments.length
+        ? other.every((s, i) => s === segments[i])
+        : segments.every((s, i) => s === other[i])
+    );
+    if (conflict) {
+      throw new Error(
+        `Field "${key}" conflicts with field "${conflict.join(".")}" in the same update`
+      );
+    }
+    seen.push(segments);
+    if (containsDeleteSentinel(value)) {
+      throw new Error(
+        `FieldValue.delete() must appear at the top level of the update data (field "${key}").`
+      );
+    }
+
+    let current = nested;
+    for (const segment of segments.slice(0, -1)) {
+      if (!isPlainObject(current[segment])) {
+        current[segment] = {};
+      }
+      current = current[segment];
+    }
+    current[segments[segments.length - 1]] = value;
+
+    if (!(value instanceof FieldValue) || isDeleteSentinel(value)) {
+      fieldPaths.push(segments.map(escapeFieldPathSegment).join("."));
+    }
+  }
+
+  return { data: nested, fieldPaths };
+}
+
+/**
+ * Collect the escaped paths of all leaf fields in write data, for the update
+ * mask of a `set(..., { merge: true })`. Plain objects are recursed into so
+ * nested maps are merged rather than replaced; an empty object is a leaf.
+ * `FieldValue` sentinels are skipped since they become field transforms,
+ * except `FieldValue.delete()`, whose path is kept so the field is removed.
+ *
+ * @param data Write data
+ * @param prefix Field-path prefix used while recursing (internal, pre-escaped)
+ */
+export function collectLeafFieldPaths(
+  data: Record<string, any>,
+  prefix: string = ""
+): string[] {
+  const fieldPaths: string[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    const escapedKey = escapeFieldPathSegment(key);
+    const fieldPath = prefix ? `${prefix}.${escapedKey}` : escapedKey;
+
+    if (value instanceof FieldValue && !isDeleteSentinel(value)) {
+      continue;
+    } else if (isPlainObject(value) && Object.keys(value).length > 0) {
+      fieldPaths.push(...collectLeafFieldPaths(value, fieldPath));
+    } else {
+      fieldPaths.push(fieldPath);
+    }
+  }
+
+  return fieldPaths;
+}
+
+/**
+ * Prepare the fields, transforms and update mask for a `set()` write.
+ *
+ * - no options: the whole document is replaced (no mask), so
+ *   `FieldValue.delete()` is rejected
+ * - `merge`: the mask lists every leaf field in the data
+ * - `mergeFields`: only the listed (dot-separated) field paths are taken from
+ *   the data; each one must be present in it
+ *
+ * @param data Write data (JS values, may contain FieldValue sentinels)
+ * @param options Set options
+ */
+export function prepareSetWrite(
+  data: Record<string, any>,
+  options: SetOptions = {}
+): {
+  fields: Record<string, FirestoreFieldValue>;
+  transforms: FieldTransform[];
+  updateMask?: string[];
+} {
+  if (options.merge && options.mergeFields) {
+    throw new Error("Set options cannot specify both merge and mergeFields.");
+  }
+
+  let writeData = data;
+  let updateMask: string[] | undefined;
+
+  if (options.merge) {
+    updateMask = collectLeafFieldPaths(data);
+  } else if (options.mergeFields) {
+    const selected: Record<string, any> = {};
+    for (const fieldPath of options.mergeFields) {
+      let value: any = data;
+      for (const segment of fieldPath.split(".")) {
+        if (!isPlainObject(value) || !(segment in value)) {
+          throw new Error(
+            `Field "${fieldPath}" is specified in mergeFields but missing from the data.`
+          );
+        }
+        value = value[segment];
+      }
+      selected[fieldPath] = value;
+    }
+    const expanded = expandFieldPaths(selected);
+    writeData = expanded.data;
+    updateMask = expanded.fieldPaths;
+  }
+
+  const { fields: plainData, transforms } = extractFieldTransforms(
+    writeData,
+    "",
+    updateMask !== undefined
+  );
+  return {
+    fields: convertToFirestoreDocument(plainData).fields,
+    transforms,
+    updateMask,
+  };
+}
+
 /**
  * Build a single `documents:commit` write that updates a document and applies
- * field transforms. `updateTransforms` / `currentDocument` are only included
- * when relevant.
+ * field transforms. `updateTransforms` / `currentDocument` / `updateMask` are
+ * only included when relevant.
  *
  * @param documentName Full resource name (projects/.../documents/<path>)
  * @param fields Already-converted Firestore field values
  * @param transforms Field transforms to apply after the update
  * @param currentDocument Optional precondition (e.g. `{ exists: false }`)
+ * @param updateMask Optional field paths to update (the whole document is
+ *   replaced when omitted)
  */
 export function buildCommitWrite(
   documentName: string,
   fields: Record<string, FirestoreFieldValue>,
   transforms: FieldTransform[],
-  currentDocument?: { exists?: boolean; updateTime?: string }
+  currentDocument?: { exists?: boolean; updateTime?: string },
+  updateMask?: string[]
 ): CommitWrite {
   const write: CommitWrite = {
     update: { name: documentName, fields },
   };
+  if (updateMask) {
+    write.updateMask = { fieldPaths: updateMask };
+  }
   if (transforms.length > 0) {
     write.updateTransforms = transforms;
   }
@@ -219,6 +550,149 @@ export function buildCommitWrite(
   return write;
 }
 
+/**
+ * Convert a write precondition to the API's `currentDocument`.
+ *
+ * @param precondition Precondition (`exists` or `lastUpdateTime`)
+ * @returns `currentDocument`, or undefined if no condition is set
+ */
+export function convertToFirestorePrecondition(
+  precondition: Precondition
+): { exists?: boolean; updateTime?: string } | undefined {
+  const { exists, lastUpdateTime } = precondition;
+  if (exists !== undefined && lastUpdateTime !== undefined) {
+    throw new Error(
+      "A precondition can specify either exists or lastUpdateTime, not both."
+    );
+  }
+  if (lastUpdateTime !== undefined) {
+    return { updateTime: formatTimestamp(lastUpdateTime) };
+  }
+  if (exists !== undefined) {
+    return { exists };
+  }
+  return undefined;
+}
+
+/**
+ * Build a single `documents:commit` write that deletes a document.
+ *
+ * @param documentName Full resource name (projects/.../documents/<path>)
+ * @param currentDocument Optional precondition (e.g. `{ exists: true }`)
+ */
+export function buildDeleteWrite(
+  documentName: string,
+  currentDocument?: { exists?: boolean; updateTime?: string }
+): CommitWrite {
+  const write: CommitWrite = { delete: documentName };
+  if (currentDocument) {
+    write.currentDocument = currentDocument;
+  }
+  return write;
+}
+
+/**
+ * Query operators accepted by `where()` and their Firestore REST names.
+ * Operators not listed here (e.g. already-converted REST names) are passed
+ * through unchanged.
+ */
+const FIELD_FILTER_OPERATORS: Record<string, string> = {
+  "==": "EQUAL",
+  "!=": "NOT_EQUAL",
+  "<": "LESS_THAN",
+  "<=": "LESS_THAN_OR_EQUAL",
+  ">": "GREATER_THAN",
+  ">=": "GREATER_THAN_OR_EQUAL",
+  "array-contains": "ARRAY_CONTAINS",
+  in: "IN",
+  "array-contains-any": "ARRAY_CONTAINS_ANY",
+  "not-in": "NOT_IN",
+};
+
+/**
+ * Convert a `Filter` tree into a structured query filter. Equality with
+ * `null` / `NaN` becomes a unary filter, and composite filters with a single
+ * child are replaced by that child.
+ * @param filter Filter to convert
+ * @returns Firestore structured query filter
+ */
+export function convertToFirestoreFilter(
+  filter: Filter
+): StructuredQueryFilter {
+  if (filter.type === "field") {
+    const op = FIELD_FILTER_OPERATORS[filter.op!] || filter.op!;
+    // Comparisons with null / NaN must be sent as unary filters
+    if (filter.value === null || Number.isNaN(filter.value)) {
+      const kind = filter.value === null ? "NULL" : "NAN";
+      return {
+        unaryFilter: {
+          op: op === "NOT_EQUAL" ? `IS_NOT_${kind}` : `IS_${kind}`,
+          field: { fieldPath: filter.fieldPath! },
+        },
+      };
+    }
+    return {
+      fieldFilter: {
+        field: { fieldPath: filter.fieldPath! },
+        op,
+        value: convertToFirestoreValue(filter.value),
+      },
+    };
+  }
+
+  const filters = filter.filters.map(convertToFirestoreFilter);
+  if (filters.length === 1) {
+    return filters[0];
+  }
+  return {
+    compositeFilter: {
+      op: filter.type === "or" ? "OR" : "AND",
+      filters,
+    },
+  };
+}
+
+/**
+ * Convert an `AggregateField` into a structured aggregation.
+ * See: https://firebase.google.com/docs/firestore/reference/rest/v1/StructuredAggregationQuery#Aggregation
+ * @param alias Alias the result is returned under
+ * @param field Aggregation to convert
+ * @returns Firestore aggregation
+ */
+export function convertToFirestoreAggregation(
+  alias: string,
+  field: AggregateField<any>
+): Record<string, any> {
+  if (field.aggregateType === "count") {
+    return { alias, count: {} };
+  }
+  return {
+    alias,
+    [field.aggregateType]: { field: { fieldPath: field.fieldPath } },
+  };
+}
+
+/**
+ * Convert model data to plain document data with a reference's converter.
+ * Without a converter the data is returned as is.
+ * @param converter Converter of the reference (or null)
+ * @param data Model data
+ * @param options Set options; with merge options the converter receives them
+ * @returns Plain document data
+ */
+export function applyDataConverter<T>(
+  converter: FirestoreDataConverter<T> | null,
+  data: T,
+  options?: SetOptions
+): DocumentData {
+  if (!converter) {
+    return data as DocumentData;
+  }
+  return options && (options.merge || options.mergeFields)
+    ? converter.toFirestore(data, options)
+    : converter.toFirestore(data);
+}
+
 /**
  * Firestoreドキュメントをオブジェクトに変換
  * @param doc Firestoreレスポンス
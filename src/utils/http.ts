@@ -0,0 +1,37 @@
+import { FirestoreConfig, InterceptedRequest } from "../types";
+
+/**
+ * Send an HTTP request with the fetch implementation and interceptors from
+ * the config (the global fetch if none is given)
+ * @param config Firestore configuration
+ * @param url Request URL
+ * @param init Request options
+ * @returns Response, after the onResponse hooks
+ */
+export async function sendRequest(
+  config: Pick<FirestoreConfig, "fetch" | "interceptors">,
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  // Called unbound: some runtimes reject fetch called on another object
+  const fetchImpl = config.fetch ?? fetch;
+  const interceptors = config.interceptors ?? [];
+  let request: InterceptedRequest = { url, init };
+
+  try {
+    for (const interceptor of interceptors) {
+      request = (await interceptor.onRequest?.(request)) ?? request;
+    }
+    let response = await fetchImpl(request.url, request.init);
+    for (const interceptor of interceptors) {
+      response =
+        (await interceptor.onResponse?.(response, request)) ?? response;
+    }
+    return response;
+  } catch (error) {
+    for (const interceptor of interceptors) {
+      await interceptor.onError?.(error, request);
+    }
+    throw error;
+  }
+}
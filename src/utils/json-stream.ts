@@ -0,0 +1,89 @@
+/**
+ * Incrementally parse a streamed JSON array (such as a `runQuery` response),
+ * yielding each top-level element as soon as it has been fully received, so
+ * the whole response never has to be held in memory.
+ *
+ * Only the array structure is tracked (nesting depth and string literals);
+ * each element is parsed with `JSON.parse` once it is complete. If iteration
+ * stops early, the rest of the body is cancelled.
+ * @param body Response body stream
+ * @returns Async generator over the array elements
+ */
+export async function* parseJsonArrayStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  // Text of the current element received in earlier chunks
+  let pending = "";
+  // Nesting depth; inside the top-level array is depth 1
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let closed = false;
+
+  try {
+    while (!closed) {
+      const { done, value } = await reader.read();
+      const chunk = done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+      const elements: string[] = [];
+      let start = 0;
+
+      for (let i = 0; i < chunk.length && !closed; i++) {
+        const char = chunk[i];
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          }
+        } else if (depth === 0) {
+          if (char === "[") {
+            depth = 1;
+            start = i + 1;
+          } else if (!/\s/.test(char)) {
+            throw new Error("Expected a JSON array in the response.");
+          }
+        } else if (char === '"') {
+          inString = true;
+        } else if (char === "{" || char === "[") {
+          depth++;
+        } else if (char === "}" || char === "]") {
+          depth--;
+          if (depth === 0) {
+            elements.push(pending + chunk.slice(start, i));
+            pending = "";
+            closed = true;
+          }
+        } else if (char === "," && depth === 1) {
+          elements.push(pending + chunk.slice(start, i));
+          pending = "";
+          start = i + 1;
+        }
+      }
+
+      if (!closed && depth > 0) {
+        pending += chunk.slice(start);
+      }
+
+      for (const text of elements) {
+        if (text.trim()) {
+          yield JSON.parse(text);
+        }
+      }
+
+      if (done && !closed) {
+        throw new Error("Unexpected end of the JSON array in the response.");
+      }
+    }
+  } finally {
+    if (!closed) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,97 @@
+import { FirestoreConfig, LogFields, Logger } from "../types";
+
+/**
+ * Keys whose values are never logged (compared case-insensitively)
+ */
+const SECRET_KEYS = new Set([
+  "privatekey",
+  "credentials",
+  "authorization",
+  "access_token",
+  "token",
+  "assertion",
+]);
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Copy a value for logging with the values of secret keys replaced, at any
+ * depth of plain objects and arrays. Headers objects are turned into plain
+ * objects; other objects (e.g. errors) are kept as they are.
+ * @param value Value to redact
+ * @returns Redacted copy
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof Headers !== "undefined" && value instanceof Headers) {
+    return redact(Object.fromEntries(value.entries()), seen);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  const isPlain = prototype === Object.prototype || prototype === null;
+  if (!Array.isArray(value) && !isPlain) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, seen));
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SECRET_KEYS.has(key.toLowerCase())
+      ? REDACTED
+      : redact(item, seen);
+  }
+  return copy;
+}
+
+/**
+ * Logger that writes to the console, used when `debug` is set
+ */
+export const consoleLogger: Logger = {
+  debug: (message, fields) => console.debug(...entry(message, fields)),
+  info: (message, fields) => console.info(...entry(message, fields)),
+  warn: (message, fields) => console.warn(...entry(message, fields)),
+  error: (message, fields) => console.error(...entry(message, fields)),
+};
+
+function entry(message: string, fields?: LogFields): unknown[] {
+  return fields ? [message, fields] : [message];
+}
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Resolve the logger for a config: the configured logger, the console when
+ * `debug` is set, or nothing. Fields are redacted before they reach it.
+ * @param config Firestore configuration
+ * @returns Logger
+ */
+export function createLogger(
+  config: Pick<FirestoreConfig, "logger" | "debug">
+): Logger {
+  const target = config.logger ?? (config.debug ? consoleLogger : silentLogger);
+  if (target === silentLogger) {
+    return silentLogger;
+  }
+  const log =
+    (level: keyof Logger) =>
+    (message: string, fields?: LogFields): void =>
+      target[level](message, fields && (redact(fields) as LogFields));
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
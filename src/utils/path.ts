@@ -1,4 +1,5 @@
-import { FirestoreConfig } from "../types";
+import { FirestoreConfig, Logger } from "../types";
+import { createLogger } from "./logger";
 
 /**
  * Utility class for constructing Firestore URIs
@@ -10,15 +11,15 @@ export class FirestorePath {
   private useEmulator: boolean = false;
   private emulatorHost: string = "localhost";
   private emulatorPort: number = 8080;
-  private debug: boolean = false;
+  private logger: Logger;
 
   /**
    * Constructor
    */
-  constructor(config: FirestoreConfig, debug: boolean = false) {
+  constructor(config: FirestoreConfig, logger: Logger = createLogger(config)) {
     this.projectId = config.projectId;
     this.databaseId = config.databaseId || "(default)";
-    this.debug = debug;
+    this.logger = logger;
     
     if (config.useEmulator) {
       this.useEmulator = true;
@@ -37,9 +38,7 @@ export class FirestorePath {
       
     const path = `${baseUrl}/projects/${this.projectId}/databases/${this.databaseId}/documents`;
     
-    if (this.debug) {
-      console.log(`Generated base path: ${path}`);
-    }
+    this.logger.debug("Generated base path", { path });
     
     return path;
   }
@@ -54,9 +53,7 @@ export class FirestorePath {
     
     const fullPath = `${this.getBasePath()}/${cleanPath}`;
     
-    if (this.debug) {
-      console.log(`Generated collection path: ${fullPath}`);
-    }
+    this.logger.debug("Generated collection path", { path: fullPath });
     
     return fullPath;
   }
@@ -70,9 +67,7 @@ export class FirestorePath {
     const cleanCollectionPath = collectionPath.replace(/^\/+|\/+$/g, '');
     const path = `${this.getBasePath()}/${cleanCollectionPath}/${documentId}`;
     
-    if (this.debug) {
-      console.log(`Generated document path: ${path}`);
-    }
+    this.logger.debug("Generated document path", { path });
     
     return path;
   }
@@ -94,10 +89,10 @@ export class FirestorePath {
     if (segments.length === 1) {
       const url = `${this.getBasePath()}:runQuery`;
       
-      if (this.debug) {
-        console.log(`Generated query URL (single collection): ${url}`);
-        console.log(`Collection ID: ${segments[0]}`);
-      }
+      this.logger.debug("Generated query URL (single collection)", {
+        url,
+        collectionId: segments[0],
+      });
       
       return {
         url,
@@ -113,11 +108,11 @@ export class FirestorePath {
     // ベースURLでネストしたドキュメントまでのパスを取得
     const url = `${this.getBasePath()}:runQuery`;
     
-    if (this.debug) {
-      console.log(`Generated query URL (nested collection): ${url}`);
-      console.log(`Collection ID: ${collectionId}`);
-      console.log(`Parent path: ${parentPath}`);
-    }
+    this.logger.debug("Generated query URL (nested collection)", {
+      url,
+      collectionId,
+      parentPath,
+    });
     
     return {
       url,
@@ -151,10 +146,10 @@ export class FirestorePath {
       // 親ドキュメントパスを含むrunQueryのURL
       const runQueryUrl = `${baseUrl}/documents/${parentPath}:runQuery`;
       
-      if (this.debug) {
-        console.log(`Generated runQuery URL for nested collection: ${runQueryUrl}`);
-        console.log(`Collection ID: ${collectionId}`);
-      }
+      this.logger.debug("Generated runQuery URL for nested collection", {
+        url: runQueryUrl,
+        collectionId,
+      });
       
       return runQueryUrl;
     }
@@ -163,10 +158,10 @@ export class FirestorePath {
     const baseUrl = this.getBasePath();
     const runQueryUrl = `${baseUrl}:runQuery`;
     
-    if (this.debug) {
-      console.log(`Generated runQuery URL for top-level collection: ${runQueryUrl}`);
-      console.log(`Collection ID: ${collectionId}`);
-    }
+    this.logger.debug("Generated runQuery URL for top-level collection", {
+      url: runQueryUrl,
+      collectionId,
+    });
     
     return runQueryUrl;
   }
@@ -175,10 +170,10 @@ export class FirestorePath {
 /**
  * Create an instance of FirestorePath class
  * @param config Firestore configuration
- * @param debug Debug mode
+ * @param logger Logger for the generated paths (from the config by default)
  */
-export function createFirestorePath(config: FirestoreConfig, debug: boolean = false): FirestorePath {
-  return new FirestorePath(config, debug);
+export function createFirestorePath(config: FirestoreConfig, logger?: Logger): FirestorePath {
+  return new FirestorePath(config, logger);
 }
 
 /**
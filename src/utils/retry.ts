@@ -0,0 +1,121 @@
+import { FirestoreError, FirestoreErrorCode } from "../errors";
+import { Clock, RetryOptions } from "../types";
+
+/**
+ * Clock backed by Date.now() and setTimeout()
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+/**
+ * Retry policy with every option filled in
+ */
+export type RetryPolicy = Required<RetryOptions>;
+
+/**
+ * Codes retried by default: the request may succeed when sent again
+ */
+const DEFAULT_RETRYABLE_CODES: FirestoreErrorCode[] = [
+  "ABORTED",
+  "RESOURCE_EXHAUSTED",
+  "UNAVAILABLE",
+  "INTERNAL",
+  "DEADLINE_EXCEEDED",
+];
+
+/**
+ * Codes that mean the request was rejected before it was applied, so a
+ * request that is not idempotent can be sent again
+ */
+const NOT_APPLIED_CODES: FirestoreErrorCode[] = ["RESOURCE_EXHAUSTED"];
+
+/**
+ * Fill in the defaults of the retry options from the config
+ * @param options Retry options, or false to disable retries
+ * @returns Retry policy
+ */
+export function resolveRetryPolicy(
+  options: RetryOptions | false | undefined
+): RetryPolicy {
+  const {
+    maxAttempts = 5,
+    baseDelayMs = 100,
+    maxDelayMs = 10000,
+    retryableCodes = DEFAULT_RETRYABLE_CODES,
+    clock = systemClock,
+  } = options || {};
+  return {
+    maxAttempts: options === false ? 1 : Math.max(1, maxAttempts),
+    baseDelayMs,
+    maxDelayMs,
+    retryableCodes,
+    clock,
+  };
+}
+
+/**
+ * Whether a failed request should be sent again
+ * @param policy Retry policy
+ * @param error Error of the failed request
+ * @param idempotent Whether sending the request twice has the same effect as
+ * sending it once
+ * @param transactional Whether the request is bound to a transaction. An
+ * `ABORTED` transaction fails every further request, so it is left to
+ * runTransaction() to retry the transaction as a whole.
+ */
+export function isRetryable(
+  policy: RetryPolicy,
+  error: FirestoreError,
+  idempotent: boolean,
+  transactional = false
+): boolean {
+  return (
+    policy.retryableCodes.includes(error.code) &&
+    !(transactional && error.code === "ABORTED") &&
+    (idempotent || NOT_APPLIED_CODES.includes(error.code))
+  );
+}
+
+/**
+ * Exponential backoff delay before a retry. The delay is randomized between
+ * half and all of its value, so clients that failed together don't all
+ * retry at the same moment.
+ * @param policy Retry policy
+ * @param retry Number of the retry (0 for the first)
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(policy: RetryPolicy, retry: number): number {
+  const delay = Math.min(policy.baseDelayMs * 2 ** retry, policy.maxDelayMs);
+  return delay / 2 + (Math.random() * delay) / 2;
+}
+
+/**
+ * Parse a `Retry-After` header, given in seconds or as an HTTP date. The
+ * delay is capped at `maxDelayMs`, so a server can't stall a request for
+ * longer than the policy allows.
+ * @param policy Retry policy
+ * @param value Header value
+ * @returns Delay in milliseconds, or undefined if the header is missing or
+ * invalid
+ */
+export function parseRetryAfter(
+  policy: RetryPolicy,
+  value: string | null | undefined
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  let delay: number;
+  if (/^\s*\d+(\.\d+)?\s*$/.test(value)) {
+    delay = Number(value) * 1000;
+  } else {
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) {
+      return undefined;
+    }
+    delay = Math.max(0, date - policy.clock.now());
+  }
+  return Math.min(delay, policy.maxDelayMs);
+}
@@ -0,0 +1,34 @@
+/**
+ * Exact API timestamps of the Dates created by parseTimestamp()
+ */
+const exactTimestamps = new WeakMap<Date, string>();
+
+/**
+ * Parse an API timestamp (RFC 3339, e.g. `2026-01-02T03:04:05.678912Z`) into
+ * a Date. Firestore timestamps have microsecond precision while a Date only
+ * keeps milliseconds, so the exact value is remembered for formatTimestamp().
+ * @param timestamp API timestamp
+ * @returns Date instance
+ */
+export function parseTimestamp(timestamp: string): Date {
+  const date = new Date(timestamp);
+  exactTimestamps.set(date, timestamp);
+  return date;
+}
+
+/**
+ * Format a Date as an API timestamp. Dates returned by parseTimestamp() (e.g.
+ * a snapshot's `updateTime` or a timestamp field) give back the exact server
+ * value, which an `updateTime` precondition or a query cursor must match;
+ * other Dates are sent as is.
+ * @param date Date instance
+ * @returns API timestamp
+ */
+export function formatTimestamp(date: Date): string {
+  const exact = exactTimestamps.get(date);
+  // The Date may have been changed with a setter since it was parsed
+  if (exact !== undefined && new Date(exact).getTime() === date.getTime()) {
+    return exact;
+  }
+  return date.toISOString();
+}
@@ -0,0 +1,218 @@
+import {
+  createWriteResults,
+  DocumentReference,
+  FirestoreClient,
+  WriteResult,
+} from "./client";
+import {
+  CommitWrite,
+  DocumentData,
+  MergeSetOptions,
+  NoInferData,
+  Precondition,
+  RequestOptions,
+  SetOptions,
+  UpdateData,
+} from "./types";
+import {
+  applyDataConverter,
+  buildCommitWrite,
+  buildDeleteWrite,
+  convertToFirestoreDocument,
+  convertToFirestorePrecondition,
+  expandFieldPaths,
+  extractFieldTransforms,
+  prepareSetWrite,
+} from "./utils/converter";
+
+/**
+ * Maximum number of writes Firestore accepts in a single commit.
+ */
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * A batch of writes applied atomically through a single `documents:commit`
+ * request, mirroring the native SDK's `WriteBatch`. Either all writes succeed
+ * or none of them are applied.
+ *
+ * @example
+ * const batch = client.batch();
+ * batch.set(client.doc("cities/LA"), { name: "Los Angeles" });
+ * batch.update(client.doc("cities/SF"), { population: 1000000 });
+ * batch.delete(client.doc("cities/NYC"));
+ * const results = await batch.commit();
+ */
+export class WriteBatch {
+  private client: FirestoreClient;
+  private committed: boolean = false;
+  _writes: CommitWrite[] = [];
+
+  constructor(client: FirestoreClient) {
+    this.client = client;
+  }
+
+  /**
+   * Create a document. The commit fails if the document already exists.
+   * @param documentRef Document reference
+   * @param data Document data
+   * @returns This batch, for chaining
+   */
+  create<T>(documentRef: DocumentReference<T>, data: T): WriteBatch {
+    return this.addWrite(
+      this.buildSetWrite(
+        documentRef,
+        applyDataConverter(documentRef.converter, data),
+        { exists: false }
+      )
+    );
+  }
+
+  /**
+   * Create or overwrite a document. With `{ merge: true }` / `{ mergeFields }`
+   * the data is merged into the existing document instead.
+   * @param documentRef Document reference
+   * @param data Document data
+   * @param options Set options
+   * @returns This batch, for chaining
+   */
+  set<T>(
+    documentRef: DocumentReference<T>,
+    data: NoInferData<T>,
+    options?: SetOptions
+  ): WriteBatch;
+  set<T>(
+    documentRef: DocumentReference<T>,
+    data: NoInferData<Partial<T>>,
+    options: MergeSetOptions
+  ): WriteBatch;
+  set<T>(
+    documentRef: DocumentReference<T>,
+    data: T | Partial<T>,
+    options?: SetOptions
+  ): WriteBatch {
+    return this.addWrite(
+      this.buildSetWrite(
+        documentRef,
+        applyDataConverter(documentRef.converter, data as T, options),
+        options && convertToFirestorePrecondition(options),
+        options
+      )
+    );
+  }
+
+  /**
+   * Update fields of an existing document. Keys may be dot-separated field
+   * paths (e.g. `"favorites.color"`); other fields are left untouched. The
+   * commit fails if the document does not exist.
+   * @param documentRef Document reference
+   * @param data Fields to update
+   * @param precondition Precondition for the update (defaults to `exists: true`)
+   * @returns This batch, for chaining
+   */
+  update<T>(
+    documentRef: DocumentReference<T>,
+    data: UpdateData<T>,
+    precondition: Precondition = {}
+  ): WriteBatch {
+    const updates = data as DocumentData;
+    if (Object.keys(updates).length === 0) {
+      throw new Error("At least one field must be updated.");
+    }
+    const { data: nested, fieldPaths } = expandFieldPaths(updates);
+    const { fields, transforms } = extractFieldTransforms(nested, "", true);
+    return this.addWrite(
+      buildCommitWrite(
+        documentRef.referenceValue,
+        convertToFirestoreDocument(fields).fields,
+        transforms,
+        convertToFirestorePrecondition(precondition) ?? { exists: true },
+        fieldPaths
+      )
+    );
+  }
+
+  /**
+   * Delete a document. Deleting a document that does not exist is not an error.
+   * @param documentRef Document reference
+   * @param precondition Precondition for the delete
+   * @returns This batch, for chaining
+   */
+  delete<T>(
+    documentRef: DocumentReference<T>,
+    precondition: Precondition = {}
+  ): WriteBatch {
+    return this.addWrite(
+      buildDeleteWrite(
+        documentRef.referenceValue,
+        convertToFirestorePrecondition(precondition)
+      )
+    );
+  }
+
+  /**
+   * Commit all writes in this batch atomically
+   * @param options `signal` to cancel the request (optional)
+   * @returns One WriteResult per write, in the order the writes were added
+   */
+  async commit(options: RequestOptions = {}): Promise<WriteResult[]> {
+    this.verifyNotCommitted();
+    this.committed = true;
+
+    if (this._writes.length === 0) {
+      return [];
+    }
+
+    const response = await this.client.commitWrites(
+      this._writes,
+      undefined,
+      options
+    );
+    return createWriteResults(response);
+  }
+
+  /**
+   * Build an update write for create() / set()
+   * @private
+   */
+  private buildSetWrite<T>(
+    documentRef: DocumentReference<T>,
+    data: Record<string, any>,
+    currentDocument?: { exists?: boolean; updateTime?: string },
+    options?: SetOptions
+  ): CommitWrite {
+    const { fields, transforms, updateMask } = prepareSetWrite(data, options);
+    return buildCommitWrite(
+      documentRef.referenceValue,
+      fields,
+      transforms,
+      currentDocument,
+      updateMask
+    );
+  }
+
+  /**
+   * Append a write, enforcing the per-commit write limit
+   * @private
+   */
+  private addWrite(write: CommitWrite): WriteBatch {
+    this.verifyNotCommitted();
+    if (this._writes.length >= MAX_BATCH_WRITES) {
+      throw new Error(
+        `A write batch can contain at most ${MAX_BATCH_WRITES} writes.`
+      );
+    }
+    this._writes.push(write);
+    return this;
+  }
+
+  /**
+   * @private
+   */
+  private verifyNotCommitted() {
+    if (this.committed) {
+      throw new Error(
+        "A write batch can no longer be used after commit() has been called."
+      );
+    }
+  }
+}
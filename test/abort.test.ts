@@ -0,0 +1,287 @@
+import { describe, it, expect, vi } from "vitest";
+import { MetadataServerCredentials } from "../src/credentials";
+import { FirestoreError } from "../src/errors";
+import { CredentialContext } from "../src/types";
+import { withTimeout } from "../src/utils/abort";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+const document = {
+  name: `${documentsPath}/users/alice`,
+  fields: { name: { stringValue: "Alice" } },
+  updateTime: "2026-01-01T00:00:00Z",
+};
+
+const fetchMock = stubFetch();
+
+/**
+ * Fetch that never responds, like a hung connection, and rejects once the
+ * request signal aborts
+ */
+function hang(_url: string, init: RequestInit) {
+  return new Promise((_resolve, reject) => {
+    init.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+  });
+}
+
+/**
+ * Response whose headers arrive but whose body never does
+ */
+const hungBody = {
+  ok: true,
+  status: 200,
+  json: () => new Promise(() => undefined),
+  text: () => new Promise(() => undefined),
+};
+
+describe("timeout", () => {
+  it("fails a hung request with DEADLINE_EXCEEDED", async () => {
+    fetchMock.mockImplementation(hang);
+
+    const error = await createTestClient({ timeout: 20 })
+      .doc("users/alice")
+      .get()
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error.code).toBe("DEADLINE_EXCEEDED");
+    expect(error.status).toBe(504);
+    expect(error.method).toBe("GET");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("covers reading the response body", async () => {
+    fetchMock.mockResolvedValue(hungBody);
+
+    await expect(
+      createTestClient({ timeout: 20 }).get("users", "alice")
+    ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED", method: "GET" });
+    await expect(
+      createTestClient({ timeout: 20 }).collection("users").get()
+    ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED", method: "POST" });
+  });
+
+  it("covers reading the body of a failed response", async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 500,
+      text: () => new Promise(() => undefined),
+    });
+
+    await expect(
+      createTestClient({ timeout: 20, retry: false }).get("users", "alice")
+    ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED" });
+  });
+
+  it("covers reading the body of a token response", async () => {
+    fetchMock.mockResolvedValue(hungBody);
+    const client = createTestClient({
+      useEmulator: false,
+      timeout: 20,
+      credentials: new MetadataServerCredentials(),
+    });
+
+    await expect(client.get("users", "alice")).rejects.toMatchObject({
+      code: "DEADLINE_EXCEEDED",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not affect requests that respond in time", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(document));
+
+    const user = await createTestClient({ timeout: 1000 }).get(
+      "users",
+      "alice"
+    );
+
+    expect(user).toEqual({ id: "alice", name: "Alice" });
+  });
+});
+
+describe("signal", () => {
+  it("cancels a request with CANCELLED", async () => {
+    fetchMock.mockImplementation(hang);
+    const controller = new AbortController();
+
+    const promise = createTestClient()
+      .collection("users")
+      .get({ signal: controller.signal });
+    controller.abort();
+    const error = await promise.catch(e => e);
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error.code).toBe("CANCELLED");
+    expect(error.path).toMatch(/:runQuery$/);
+  });
+
+  it("cancels reading the response body with CANCELLED", async () => {
+    fetchMock.mockResolvedValue(hungBody);
+    const controller = new AbortController();
+
+    const promise = createTestClient({ timeout: 1000 }).get("users", "alice", {
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+    const error = await promise.catch(e => e);
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error.code).toBe("CANCELLED");
+  });
+
+  it("is passed to the credentials", async () => {
+    const controller = new AbortController();
+    let context: CredentialContext | undefined;
+    const client = createTestClient({
+      useEmulator: false,
+      credentials: {
+        getAccessToken: async credentialContext => {
+          context = credentialContext;
+          controller.abort();
+          await credentialContext.fetch("https://token.example", {});
+          return { token: "token" };
+        },
+      },
+    });
+
+    await expect(
+      client.get("users", "alice", { signal: controller.signal })
+    ).rejects.toMatchObject({ code: "CANCELLED" });
+    expect(context?.signal).toBe(controller.signal);
+    // Only the token request, with the signal, and no Firestore request
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+  });
+
+  it("reports a timed-out signal as DEADLINE_EXCEEDED", async () => {
+    fetchMock.mockImplementation(hang);
+    const controller = new AbortController();
+    controller.abort(new DOMException("Timed out", "TimeoutError"));
+
+    await expect(
+      createTestClient().delete("users", "alice", { signal: controller.signal })
+    ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("is passed to fetch by every operation", async () => {
+    const client = createTestClient();
+    const ref = client.doc("users/alice");
+    const { signal } = new AbortController();
+    const commitResponse = {
+      writeResults: [{}],
+      commitTime: "2026-01-01T00:00:00Z",
+    };
+    const operations: Array<[() => Promise<unknown>, unknown]> = [
+      [() => client.add("users", { name: "Alice" }, { signal }), document],
+      [() => client.get("users", "alice", { signal }), document],
+      [() => client.update("users", "alice", { a: 1 }, { signal }), document],
+      [() => client.delete("users", "alice", { signal }), {}],
+      [() => client.query("users", { limit: 1, signal }), []],
+      [() => client.collection("users").add({ a: 1 }, { signal }), document],
+      [() => ref.get({ signal }), document],
+      [() => ref.set({ name: "Alice" }, { signal }), document],
+      [() => ref.update({ name: "Alice" }, { signal }), document],
+      [() => ref.delete({ signal }), commitResponse],
+      [() => client.getAll(ref, { signal }), [{ found: document }]],
+      [() => client.collectionGroup("users").get({ signal }), []],
+      [() => client.collection("users").limit(1).get({ signal }), []],
+      [
+        () => client.collection("users").count().get({ signal }),
+        [{ result: { aggregateFields: {} } }],
+      ],
+      [() => client.batch().delete(ref).commit({ signal }), commitResponse],
+    ];
+
+    for (const [operation, body] of operations) {
+      fetchMock.mockReset();
+      fetchMock.mockResolvedValue(jsonResponse(body));
+      await operation();
+      expect(fetchMock.mock.calls[0][1].signal).toBe(signal);
+    }
+  });
+
+  it("is passed to stream() requests", async () => {
+    fetchMock.mockResolvedValue(jsonResponse([{ document }]));
+    const { signal } = new AbortController();
+
+    for await (const _ of createTestClient()
+      .collection("users")
+      .stream({ signal })) {
+      // drain
+    }
+
+    expect(fetchMock.mock.calls[0][1].signal).toBe(signal);
+  });
+
+  it("stops retrying when aborted during the backoff", async () => {
+    const controller = new AbortController();
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 503,
+      text: async () => '{"error":{"status":"UNAVAILABLE"}}',
+    });
+    const client = createTestClient({
+      retry: {
+        clock: {
+          now: () => 0,
+          // Abort instead of waiting
+          sleep: () => {
+            controller.abort();
+            return new Promise(() => undefined);
+          },
+        },
+      },
+    });
+
+    await expect(
+      client.get("users", "alice", { signal: controller.signal })
+    ).rejects.toMatchObject({ code: "CANCELLED" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies to every request of a transaction", async () => {
+    const { signal } = new AbortController();
+    fetchMock.mockImplementation(async (url: string) =>
+      jsonResponse(
+        url.endsWith(":beginTransaction")
+          ? { transaction: "tx1" }
+          : url.endsWith(":commit")
+            ? { writeResults: [{}], commitTime: "2026-01-01T00:00:00Z" }
+            : document
+      )
+    );
+    const client = createTestClient();
+    const ref = client.doc("users/alice");
+
+    await client.runTransaction(
+      async tx => {
+        await tx.get(ref);
+        tx.update(ref, { name: "Bob" });
+      },
+      { signal }
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init.signal).toBe(signal);
+    }
+  });
+});
+
+describe("withTimeout", () => {
+  it("stops following the caller's signal once cleared", () => {
+    const controller = new AbortController();
+    const { signal, clear } = withTimeout(controller.signal, 1000);
+
+    clear();
+    controller.abort();
+
+    expect(signal?.aborted).toBe(false);
+  });
+});
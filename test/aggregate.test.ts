@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { AggregateField, average, count, sum } from "../src/aggregate";
+import { formatTimestamp } from "../src/utils/timestamp";
+import { createTestClient, jsonResponse, sentBody, stubFetch } from "./helpers";
+
+const fetchMock = stubFetch();
+
+describe("count()", () => {
+  it("runs a count aggregation over the query", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        {
+          result: { aggregateFields: { count: { integerValue: "42" } } },
+          readTime: "2026-01-01T00:00:00.123456Z",
+        },
+      ])
+    );
+
+    const snapshot = await createTestClient()
+      .collection("users/u1/orders")
+      .where("status", "==", "paid")
+      .count()
+      .get();
+
+    const [url] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/documents\/users\/u1:runAggregationQuery$/);
+    expect(sentBody(fetchMock)).toEqual({
+      structuredAggregationQuery: {
+        structuredQuery: {
+          from: [{ collectionId: "orders", allDescendants: false }],
+          where: {
+            fieldFilter: {
+              field: { fieldPath: "status" },
+              op: "EQUAL",
+              value: { stringValue: "paid" },
+            },
+          },
+        },
+        aggregations: [{ alias: "count", count: {} }],
+      },
+    });
+    expect(snapshot.data()).toEqual({ count: 42 });
+    // Exact, to read at the same time later
+    expect(formatTimestamp(snapshot.readTime!)).toBe(
+      "2026-01-01T00:00:00.123456Z"
+    );
+  });
+});
+
+describe("aggregate()", () => {
+  it("sends sum and average aggregations under their aliases", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        {
+          result: {
+            aggregateFields: {
+              total: { doubleValue: 12.5 },
+              avg: { nullValue: null },
+              orders: { integerValue: "3" },
+            },
+          },
+          readTime: "2026-01-01T00:00:00Z",
+        },
+      ])
+    );
+
+    const snapshot = await createTestClient()
+      .collectionGroup("orders")
+      .aggregate({
+        total: sum("price"),
+        avg: average("rating"),
+        orders: count(),
+      })
+      .get();
+
+    const { structuredAggregationQuery } = sentBody(fetchMock);
+    expect(structuredAggregationQuery.structuredQuery.from).toEqual([
+      { collectionId: "orders", allDescendants: true },
+    ]);
+    expect(structuredAggregationQuery.aggregations).toEqual([
+      { alias: "total", sum: { field: { fieldPath: "price" } } },
+      { alias: "avg", avg: { field: { fieldPath: "rating" } } },
+      { alias: "orders", count: {} },
+    ]);
+    expect(snapshot.data()).toEqual({ total: 12.5, avg: null, orders: 3 });
+  });
+
+  it("keeps the query's orderings, cursors and limit", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        { result: { aggregateFields: { n: { integerValue: "2" } } } },
+      ])
+    );
+
+    await createTestClient()
+      .collection("scores")
+      .orderBy("points")
+      .startAt(10)
+      .limit(5)
+      .aggregate({ n: AggregateField.count() })
+      .get();
+
+    const { structuredQuery } = sentBody(fetchMock).structuredAggregationQuery;
+    expect(structuredQuery.orderBy).toEqual([
+      { field: { fieldPath: "points" }, direction: "ASCENDING" },
+    ]);
+    expect(structuredQuery.startAt.values).toEqual([{ integerValue: 10 }]);
+    expect(structuredQuery.limit).toBe(5);
+  });
+
+  it("requires at least one aggregation", async () => {
+    await expect(
+      createTestClient().collection("scores").aggregate({}).get()
+    ).rejects.toThrow(/at least one aggregation/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -711,4 +711,33 @@ describe("Firebase Rest Firestore", () => {
     expect(snap.data()?.label).toBe("x");
     expect(snap.data()?.meta?.touchedAt).toBeInstanceOf(Date);
   });
+
+  // Numeric and array transforms (FieldValue.increment / arrayUnion / ...)
+  it("Should apply increment, maximum, minimum, arrayUnion and arrayRemove transforms", async () => {
+    const created = await client.add(testCollection, {
+      count: 1,
+      high: 5,
+      low: 5,
+      tags: ["a", "b"],
+    });
+    createdIds.push({ collection: testCollection, id: created.id });
+
+    const updated = await client.update(testCollection, created.id, {
+      count: FieldValue.increment(2),
+      high: FieldValue.maximum(10),
+      low: FieldValue.minimum(1),
+      tags: FieldValue.arrayUnion("b", "c"),
+      missing: FieldValue.increment(3),
+    });
+    expect(updated.count).toBe(3);
+    expect(updated.high).toBe(10);
+    expect(updated.low).toBe(1);
+    expect(updated.tags).toEqual(["a", "b", "c"]);
+    expect(updated.missing).toBe(3);
+
+    const removed = await client.update(testCollection, created.id, {
+      tags: FieldValue.arrayRemove("a", "c"),
+    });
+    expect(removed.tags).toEqual(["b"]);
+  });
 });
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPairSync } from "crypto";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import {
+  AccessTokenCredentials,
+  MetadataServerCredentials,
+  ServiceAccountCredentials,
+} from "../src/credentials";
+import { FirestoreError } from "../src/errors";
+import { CredentialProvider } from "../src/types";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+const document = {
+  name: `${documentsPath}/users/alice`,
+  fields: { name: { stringValue: "Alice" } },
+};
+
+const realFetch = globalThis.fetch;
+// The metadata server is a local stand-in reached over real HTTP
+const fetchMock = stubFetch(async (url, init) =>
+  url.startsWith("http://127.0.0.1")
+    ? realFetch(url, init)
+    : jsonResponse(document)
+);
+
+function makeClient(credentials: CredentialProvider) {
+  return createTestClient({ useEmulator: false, credentials });
+}
+
+function authorizations() {
+  return fetchMock.mock.calls
+    .filter(([url]) => url.startsWith("https://firestore.googleapis.com"))
+    .map(([, init]) => init.headers.Authorization);
+}
+
+describe("credentials", () => {
+  it("are required unless a service account key is configured", async () => {
+    const client = createTestClient({ useEmulator: false });
+
+    await expect(client.get("users", "alice")).rejects.toThrow(
+      "Missing required Firestore configuration parameters: privateKey, clientEmail"
+    );
+  });
+});
+
+describe("AccessTokenCredentials", () => {
+  it("sends a static token", async () => {
+    await makeClient(new AccessTokenCredentials("static-token")).get(
+      "users",
+      "alice"
+    );
+
+    expect(authorizations()).toEqual(["Bearer static-token"]);
+  });
+
+  it("asks for the current token on every request", async () => {
+    let count = 0;
+    const client = makeClient(
+      new AccessTokenCredentials(async () => `token-${++count}`)
+    );
+
+    await client.get("users", "alice");
+    await client.get("users", "alice");
+
+    expect(authorizations()).toEqual(["Bearer token-1", "Bearer token-2"]);
+  });
+
+  it("caches tokens with an expiry until shortly before it", async () => {
+    const source = vi.fn(() => ({
+      token: "expiring-token",
+      expiresAt: Date.now() + 60 * 60 * 1000,
+    }));
+    const client = makeClient(new AccessTokenCredentials(source));
+
+    await client.get("users", "alice");
+    await client.get("users", "alice");
+    expect(source).toHaveBeenCalledTimes(1);
+
+    source.mockReturnValue({
+      token: "short-lived-token",
+      expiresAt: Date.now() + 60 * 1000,
+    });
+    const shortLived = makeClient(new AccessTokenCredentials(source));
+    await shortLived.get("users", "alice");
+    await shortLived.get("users", "alice");
+    expect(source).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("MetadataServerCredentials", () => {
+  let server: Server;
+  let host: string;
+  let requests: IncomingMessage[];
+  let status: number;
+
+  beforeEach(async () => {
+    requests = [];
+    status = 200;
+    server = createServer((request, response) => {
+      requests.push(request);
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(
+        JSON.stringify(
+          status === 200
+            ? {
+                access_token: "metadata-token",
+                expires_in: 3599,
+                token_type: "Bearer",
+              }
+            : { error: { code: status, status: "NOT_FOUND" } }
+        )
+      );
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("gets a token from the metadata server and caches it", async () => {
+    const client = makeClient(new MetadataServerCredentials({ host }));
+
+    await client.get("users", "alice");
+    await client.get("users", "alice");
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe(
+      "/computeMetadata/v1/instance/service-accounts/default/token"
+    );
+    expect(requests[0].headers["metadata-flavor"]).toBe("Google");
+    expect(authorizations()).toEqual([
+      "Bearer metadata-token",
+      "Bearer metadata-token",
+    ]);
+  });
+
+  it("requests the given service account and scopes", async () => {
+    await makeClient(
+      new MetadataServerCredentials({
+        host,
+        serviceAccount: "sa@test-project.iam.gserviceaccount.com",
+        scopes: ["https://www.googleapis.com/auth/datastore"],
+      })
+    ).get("users", "alice");
+
+    expect(requests[0].url).toBe(
+      "/computeMetadata/v1/instance/service-accounts/sa%40test-project.iam.gserviceaccount.com/token" +
+        "?scopes=https%3A%2F%2Fwww.googleapis.com%2Fauth%2Fdatastore"
+    );
+  });
+
+  it("reports metadata server errors", async () => {
+    status = 404;
+
+    const error = await makeClient(new MetadataServerCredentials({ host }))
+      .get("users", "alice")
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error.code).toBe("NOT_FOUND");
+    expect(error.method).toBe("GET");
+  });
+});
+
+describe("ServiceAccountCredentials", () => {
+  it("exchanges a signed JWT for a token", async () => {
+    const { privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ access_token: "sa-token", expires_in: 3599 })
+    );
+    const credentials = new ServiceAccountCredentials({
+      clientEmail: "sa@test-project.iam.gserviceaccount.com",
+      privateKey,
+    });
+
+    await makeClient(credentials).get("users", "alice");
+
+    const [[tokenUrl, tokenInit]] = fetchMock.mock.calls;
+    expect(tokenUrl).toBe("https://oauth2.googleapis.com/token");
+    expect(JSON.parse(tokenInit.body).assertion).toMatch(/^ey/);
+    expect(authorizations()).toEqual(["Bearer sa-token"]);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { DocumentSnapshot } from "../src/client";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  sentBody,
+  stubFetch,
+} from "./helpers";
+
+const fetchMock = stubFetch(async () => jsonResponse([]));
+
+describe("query cursors", () => {
+  it("sends field-value cursors with before flags", async () => {
+    const cities = createTestClient().collection("cities");
+
+    await cities.orderBy("population").startAt(1000).endBefore(5000).get();
+    expect(sentBody(fetchMock).structuredQuery.startAt).toEqual({
+      values: [{ integerValue: 1000 }],
+      before: true,
+    });
+    expect(sentBody(fetchMock).structuredQuery.endAt).toEqual({
+      values: [{ integerValue: 5000 }],
+      before: true,
+    });
+    expect(sentBody(fetchMock).structuredQuery.orderBy).toEqual([
+      { field: { fieldPath: "population" }, direction: "ASCENDING" },
+    ]);
+
+    await cities.orderBy("population").startAfter(1000).endAt(5000).get();
+    expect(sentBody(fetchMock).structuredQuery.startAt.before).toBe(false);
+    expect(sentBody(fetchMock).structuredQuery.endAt.before).toBe(false);
+  });
+
+  it("uses the ordered fields and document name of a snapshot", async () => {
+    const snapshot = new DocumentSnapshot(createTestClient().doc("cities/SF"), {
+      name: "San Francisco",
+      stats: { population: 860000 },
+    });
+
+    await createTestClient()
+      .collection("cities")
+      .orderBy("stats.population", "desc")
+      .startAfter(snapshot)
+      .get();
+
+    const query = sentBody(fetchMock).structuredQuery;
+    expect(query.orderBy).toEqual([
+      { field: { fieldPath: "stats.population" }, direction: "DESCENDING" },
+      { field: { fieldPath: "__name__" }, direction: "DESCENDING" },
+    ]);
+    expect(query.startAt).toEqual({
+      values: [
+        { integerValue: 860000 },
+        { referenceValue: `${documentsPath}/cities/SF` },
+      ],
+      before: false,
+    });
+  });
+
+  it("reads ordered fields with escaped names from a snapshot", async () => {
+    const snapshot = new DocumentSnapshot(createTestClient().doc("cities/SF"), {
+      "stats.population": 860000,
+    });
+
+    await createTestClient()
+      .collection("cities")
+      .orderBy("`stats.population`")
+      .startAfter(snapshot)
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.startAt.values).toEqual([
+      { integerValue: 860000 },
+      { referenceValue: `${documentsPath}/cities/SF` },
+    ]);
+  });
+
+  it("orders by __name__ alone when a snapshot is used without orderBy()", async () => {
+    await createTestClient()
+      .collection("cities")
+      .startAt(
+        new DocumentSnapshot(createTestClient().doc("cities/LA"), {
+          name: "Los Angeles",
+        })
+      )
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.orderBy).toEqual([
+      { field: { fieldPath: "__name__" }, direction: "ASCENDING" },
+    ]);
+    expect(sentBody(fetchMock).structuredQuery.startAt).toEqual({
+      values: [{ referenceValue: `${documentsPath}/cities/LA` }],
+      before: true,
+    });
+  });
+
+  it("sends document IDs for a __name__ ordering as references", async () => {
+    await createTestClient()
+      .collection("cities")
+      .orderBy("__name__")
+      .startAfter("LA")
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.startAt.values).toEqual([
+      { referenceValue: `${documentsPath}/cities/LA` },
+    ]);
+  });
+
+  it("keeps the exact timestamps of a snapshot", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        name: `${documentsPath}/events/e1`,
+        fields: { at: { timestampValue: "2026-01-02T03:04:05.678912Z" } },
+      })
+    );
+    const client = createTestClient();
+    const snapshot = await client.doc("events/e1").get();
+
+    await client.collection("events").orderBy("at").startAfter(snapshot).get();
+
+    expect(sentBody(fetchMock).structuredQuery.startAt.values).toEqual([
+      { timestampValue: "2026-01-02T03:04:05.678912Z" },
+      { referenceValue: `${documentsPath}/events/e1` },
+    ]);
+  });
+
+  it("requires document paths for a __name__ ordering of a collection group", async () => {
+    const posts = createTestClient()
+      .collectionGroup("posts")
+      .orderBy("__name__");
+
+    await posts.startAt("users/alice/posts/p1").get();
+
+    expect(sentBody(fetchMock).structuredQuery.startAt.values).toEqual([
+      { referenceValue: `${documentsPath}/users/alice/posts/p1` },
+    ]);
+    expect(() => posts.startAt("p1")).toThrow(
+      /startAt\(\) must be a document path, but 'p1' is not/
+    );
+  });
+
+  it("rejects invalid cursors", () => {
+    const cities = createTestClient().collection("cities");
+    expect(() => cities.orderBy("name").startAt("a", "b")).toThrow(
+      /Too many arguments provided to startAt\(\)/
+    );
+    expect(() => cities.endAt()).toThrow(/requires at least one value/);
+    expect(() =>
+      cities.startAt(new DocumentSnapshot(cities.doc("x"), null))
+    ).toThrow(/doesn't exist/);
+    expect(() =>
+      cities
+        .orderBy("population")
+        .endBefore(new DocumentSnapshot(cities.doc("x"), {}))
+    ).toThrow(/'population' is missing/);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  createFirestoreError,
+  FailedPreconditionError,
+  FirestoreError,
+} from "../src/errors";
+import { FieldValue } from "../src/field-value";
+import { createTestClient, jsonResponse, stubFetch } from "./helpers";
+
+const basePath = "/v1/projects/test-project/databases/(default)/documents";
+
+const fetchMock = stubFetch();
+
+function googleError(code: number, status: string, message = "") {
+  return { error: { code, message, status, details: [] } };
+}
+
+describe("FirestoreError", () => {
+  it("exposes the code, status, details, method and path", async () => {
+    const details = [
+      { "@type": "type.googleapis.com/google.rpc.ErrorInfo", reason: "X" },
+    ];
+    fetchMock.mockResolvedValue(
+      jsonResponse(
+        {
+          error: {
+            code: 403,
+            message: "Missing or insufficient permissions.",
+            status: "PERMISSION_DENIED",
+            details,
+          },
+        },
+        403
+      )
+    );
+
+    const error = await createTestClient()
+      .get("users", "alice")
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error.code).toBe("PERMISSION_DENIED");
+    expect(error.status).toBe(403);
+    expect(error.details).toEqual(details);
+    expect(error.method).toBe("GET");
+    expect(error.path).toBe(`${basePath}/users/alice`);
+    expect(error.message).toBe(
+      `Firestore API error: PERMISSION_DENIED - Missing or insufficient permissions. (GET ${basePath}/users/alice)`
+    );
+  });
+
+  it("is thrown by add, update, delete, query and commit", async () => {
+    const client = createTestClient();
+    const calls: Array<[() => Promise<unknown>, string, string]> = [
+      [() => client.add("users", { name: "x" }), "POST", "/users"],
+      [
+        () => client.update("users", "alice", { name: "x" }),
+        "PATCH",
+        "/users/alice",
+      ],
+      [() => client.delete("users", "alice"), "POST", ":commit"],
+      [() => client.collection("users").get(), "POST", ":runQuery"],
+      [() => client.doc("users/alice").delete(), "POST", ":commit"],
+    ];
+
+    for (const [call, method, path] of calls) {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(googleError(403, "PERMISSION_DENIED", "Denied"), 403)
+      );
+      const error = (await call().catch(e => e)) as FirestoreError;
+
+      expect(error).toBeInstanceOf(FirestoreError);
+      expect(error.code).toBe("PERMISSION_DENIED");
+      expect(error.method).toBe(method);
+      expect(error.path.endsWith(path)).toBe(true);
+    }
+  });
+
+  it("reads errors wrapped in an array by runQuery", () => {
+    const error = createFirestoreError(
+      "POST",
+      "http://localhost/v1/x:runQuery",
+      400,
+      JSON.stringify([googleError(400, "FAILED_PRECONDITION", "Needs index")])
+    );
+
+    expect(error).toBeInstanceOf(FailedPreconditionError);
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error.code).toBe("FAILED_PRECONDITION");
+    expect(error.path).toBe("/v1/x:runQuery");
+  });
+
+  it("derives the code from the HTTP status without an error body", () => {
+    expect(
+      createFirestoreError("GET", "https://a/b?c=d", 503, "<html></html>").code
+    ).toBe("UNAVAILABLE");
+    expect(createFirestoreError("GET", "https://a/b", 418, "").code).toBe(
+      "UNKNOWN"
+    );
+    expect(createFirestoreError("GET", "https://a/b?c=d", 503, "").path).toBe(
+      "/b"
+    );
+  });
+});
+
+describe("error codes in retries", () => {
+  it("retries add() on an ALREADY_EXISTS ID collision", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse(googleError(409, "ALREADY_EXISTS"), 409)
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          writeResults: [{}],
+          commitTime: "2026-01-01T00:00:00Z",
+        })
+      )
+      .mockImplementationOnce(async (url: string) =>
+        jsonResponse({
+          name: url.replace(/^.*\/v1\//, ""),
+          fields: { name: { stringValue: "x" } },
+        })
+      );
+
+    const added = await createTestClient().add("users", {
+      name: "x",
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(added.name).toBe("x");
+  });
+
+  it("does not retry add() on other errors", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(googleError(409, "ABORTED"), 409));
+
+    const error = await createTestClient()
+      .add("users", { createdAt: FieldValue.serverTimestamp() })
+      .catch(e => e);
+
+    expect(error.code).toBe("ABORTED");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
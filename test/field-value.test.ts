@@ -4,6 +4,8 @@ import {
   extractFieldTransforms,
   convertToFirestoreValue,
   buildCommitWrite,
+  collectLeafFieldPaths,
+  expandFieldPaths,
 } from "../src/utils/converter";
 import { createFirestoreClient } from "../src/client";
 import { LiteralGeoPointValue } from "../src/types";
@@ -35,6 +37,23 @@ describe("FieldValue", () => {
       FieldValue.serverTimestamp().isEqual(FieldValue.serverTimestamp())
     ).toBe(true);
   });
+
+  it("isEqual compares operands", () => {
+    expect(FieldValue.increment(1).isEqual(FieldValue.increment(1))).toBe(true);
+    expect(FieldValue.increment(1).isEqual(FieldValue.increment(2))).toBe(
+      false
+    );
+    expect(FieldValue.increment(1).isEqual(FieldValue.maximum(1))).toBe(false);
+    expect(
+      FieldValue.arrayUnion("a", 1).isEqual(FieldValue.arrayUnion("a", 1))
+    ).toBe(true);
+  });
+
+  it("numeric sentinels reject non-numbers", () => {
+    expect(() => FieldValue.increment("1" as any)).toThrow(/increment/);
+    expect(() => FieldValue.maximum(undefined as any)).toThrow(/maximum/);
+    expect(() => FieldValue.minimum(null as any)).toThrow(/minimum/);
+  });
 });
 
 describe("extractFieldTransforms", () => {
@@ -102,6 +121,43 @@ describe("extractFieldTransforms", () => {
     ]);
   });
 
+  it("translates numeric and array sentinels into their transforms", () => {
+    const { fields, transforms } = extractFieldTransforms({
+      name: "a",
+      visits: FieldValue.increment(1),
+      score: FieldValue.increment(0.5),
+      high: FieldValue.maximum(10),
+      low: FieldValue.minimum(-1),
+      stats: { tags: FieldValue.arrayUnion("x", 2) },
+      removed: FieldValue.arrayRemove("y"),
+    });
+    expect(fields).toEqual({ name: "a", stats: {} });
+    expect(transforms).toEqual([
+      { fieldPath: "visits", increment: { integerValue: 1 } },
+      { fieldPath: "score", increment: { doubleValue: 0.5 } },
+      { fieldPath: "high", maximum: { integerValue: 10 } },
+      { fieldPath: "low", minimum: { integerValue: -1 } },
+      {
+        fieldPath: "stats.tags",
+        appendMissingElements: {
+          values: [{ stringValue: "x" }, { integerValue: 2 }],
+        },
+      },
+      {
+        fieldPath: "removed",
+        removeAllFromArray: { values: [{ stringValue: "y" }] },
+      },
+    ]);
+  });
+
+  it("rejects a FieldValue nested inside arrayUnion elements", () => {
+    expect(() =>
+      extractFieldTransforms({
+        tags: FieldValue.arrayUnion(FieldValue.serverTimestamp()),
+      })
+    ).toThrow(/FieldValue/);
+  });
+
   it("treats Date / DocumentReference / LiteralGeoPointValue as leaves (no recursion)", () => {
     const ref = makeClient().doc("a/b");
     const geo = new LiteralGeoPointValue({
@@ -116,6 +172,60 @@ describe("extractFieldTransforms", () => {
   });
 });
 
+describe("FieldValue.delete()", () => {
+  it("is rejected where a write has no update mask", () => {
+    expect(() => extractFieldTransforms({ a: FieldValue.delete() })).toThrow(
+      /FieldValue.delete\(\) can only be used/
+    );
+    expect(() =>
+      extractFieldTransforms({ a: { b: FieldValue.delete() } })
+    ).toThrow(/FieldValue.delete\(\) can only be used/);
+  });
+
+  it("is dropped from fields when deletes are allowed", () => {
+    const { fields, transforms } = extractFieldTransforms(
+      { a: 1, b: FieldValue.delete(), c: { d: FieldValue.delete() } },
+      "",
+      true
+    );
+    expect(fields).toEqual({ a: 1, c: {} });
+    expect(transforms).toEqual([]);
+  });
+
+  it("is masked by expandFieldPaths and collectLeafFieldPaths", () => {
+    expect(
+      expandFieldPaths({ a: 1, "b.c": FieldValue.delete() }).fieldPaths
+    ).toEqual(["a", "b.c"]);
+    expect(
+      collectLeafFieldPaths({ a: 1, b: { c: FieldValue.delete() } })
+    ).toEqual(["a", "b.c"]);
+  });
+
+  it("must be at the top level of update data", () => {
+    expect(() => expandFieldPaths({ a: { b: FieldValue.delete() } })).toThrow(
+      /top level/
+    );
+  });
+
+  it("is rejected inside an array", () => {
+    expect(() => convertToFirestoreValue([FieldValue.delete()])).toThrow(
+      /FieldValue/
+    );
+  });
+
+  it("is rejected by add()", async () => {
+    const client = createFirestoreClient({
+      projectId: "p",
+      privateKey: "",
+      clientEmail: "",
+      useEmulator: true,
+    });
+    await expect(client.add("c", { a: FieldValue.delete() })).rejects.toThrow(
+      /FieldValue.delete\(\) can only be used/
+    );
+  });
+});
+
 describe("convertToFirestoreValue safety net", () => {
   it("throws if a FieldValue reaches conversion directly", () => {
     expect(() => convertToFirestoreValue(FieldValue.serverTimestamp())).toThrow(
@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import { Filter } from "../src/filter";
+import { createTestClient, jsonResponse, sentBody, stubFetch } from "./helpers";
+
+const fetchMock = stubFetch(async () => jsonResponse([]));
+
+function fieldFilter(fieldPath: string, op: string, value: any) {
+  return { fieldFilter: { field: { fieldPath }, op, value } };
+}
+
+describe("where() with Filter", () => {
+  it("sends a single field filter as is", async () => {
+    await createTestClient()
+      .collection("tasks")
+      .where(Filter.where("status", "==", "open"))
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.where).toEqual(
+      fieldFilter("status", "EQUAL", { stringValue: "open" })
+    );
+  });
+
+  it("sends Filter.or() as an OR composite filter", async () => {
+    await createTestClient()
+      .collection("tasks")
+      .where(
+        Filter.or(
+          Filter.where("status", "==", "open"),
+          Filter.where("assignee", "==", "me")
+        )
+      )
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.where).toEqual({
+      compositeFilter: {
+        op: "OR",
+        filters: [
+          fieldFilter("status", "EQUAL", { stringValue: "open" }),
+          fieldFilter("assignee", "EQUAL", { stringValue: "me" }),
+        ],
+      },
+    });
+  });
+
+  it("nests composite filters and ANDs them with other where() calls", async () => {
+    await createTestClient()
+      .collectionGroup("tasks")
+      .where("archived", "==", false)
+      .where(
+        Filter.or(
+          Filter.and(
+            Filter.where("priority", ">=", 3),
+            Filter.where("tags", "array-contains", "urgent")
+          ),
+          Filter.where("assignee", "in", ["me", "you"])
+        )
+      )
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.where).toEqual({
+      compositeFilter: {
+        op: "AND",
+        filters: [
+          fieldFilter("archived", "EQUAL", { booleanValue: false }),
+          {
+            compositeFilter: {
+              op: "OR",
+              filters: [
+                {
+                  compositeFilter: {
+                    op: "AND",
+                    filters: [
+                      fieldFilter("priority", "GREATER_THAN_OR_EQUAL", {
+                        integerValue: 3,
+                      }),
+                      fieldFilter("tags", "ARRAY_CONTAINS", {
+                        stringValue: "urgent",
+                      }),
+                    ],
+                  },
+                },
+                fieldFilter("assignee", "IN", {
+                  arrayValue: {
+                    values: [{ stringValue: "me" }, { stringValue: "you" }],
+                  },
+                }),
+              ],
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it("unwraps composite filters with a single child", async () => {
+    await createTestClient()
+      .collection("tasks")
+      .where(Filter.or(Filter.where("status", "!=", "done")))
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.where).toEqual(
+      fieldFilter("status", "NOT_EQUAL", { stringValue: "done" })
+    );
+  });
+
+  it("does not change the query it was called on", async () => {
+    const client = createTestClient();
+    const base = client.collection("tasks").where("status", "==", "open");
+    base.where("assignee", "==", "me");
+
+    await base.get();
+
+    expect(sentBody(fetchMock).structuredQuery.where).toEqual(
+      fieldFilter("status", "EQUAL", { stringValue: "open" })
+    );
+  });
+
+  it("still accepts plain filter objects in client.query()", async () => {
+    await createTestClient().query("tasks", {
+      where: [
+        { field: "status", op: "==", value: "open" },
+        Filter.or(
+          Filter.where("assignee", "==", "me"),
+          Filter.where("assignee", "==", "you")
+        ),
+      ],
+    });
+
+    expect(sentBody(fetchMock).structuredQuery.where.compositeFilter.op).toBe(
+      "AND"
+    );
+    expect(
+      sentBody(fetchMock).structuredQuery.where.compositeFilter.filters[1]
+        .compositeFilter.op
+    ).toBe("OR");
+  });
+
+  it("rejects empty composite filters", () => {
+    expect(() => Filter.or()).toThrow(/at least one filter/);
+    expect(() => Filter.and()).toThrow(/at least one filter/);
+  });
+});
+
+describe("where() with null and NaN", () => {
+  it("sends equality with null and NaN as unary filters", async () => {
+    await createTestClient()
+      .collection("tasks")
+      .where("deletedAt", "==", null)
+      .where("score", "==", NaN)
+      .where("assignee", "!=", null)
+      .where(Filter.where("ratio", "!=", NaN))
+      .get();
+
+    expect(
+      sentBody(fetchMock).structuredQuery.where.compositeFilter.filters
+    ).toEqual([
+      { unaryFilter: { op: "IS_NULL", field: { fieldPath: "deletedAt" } } },
+      { unaryFilter: { op: "IS_NAN", field: { fieldPath: "score" } } },
+      {
+        unaryFilter: { op: "IS_NOT_NULL", field: { fieldPath: "assignee" } },
+      },
+      { unaryFilter: { op: "IS_NOT_NAN", field: { fieldPath: "ratio" } } },
+    ]);
+  });
+
+  it("converts REST operator names in client.query() too", async () => {
+    await createTestClient().query("tasks", {
+      where: [{ field: "deletedAt", op: "EQUAL", value: null }],
+    });
+
+    expect(sentBody(fetchMock).structuredQuery.where).toEqual({
+      unaryFilter: { op: "IS_NULL", field: { fieldPath: "deletedAt" } },
+    });
+  });
+
+  it("rejects other operators on null and NaN when where() is called", () => {
+    const client = createTestClient();
+    expect(() =>
+      client.collection("tasks").where("deletedAt", ">", null)
+    ).toThrow(/Null and NaN only support '==' and '!='/);
+    expect(() =>
+      client.collectionGroup("tasks").where("score", "in", NaN)
+    ).toThrow(/Null and NaN/);
+    expect(() =>
+      client.collection("tasks").limit(1).where("score", "<=", NaN)
+    ).toThrow(/Null and NaN/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("still sends null inside arrays as a field filter", async () => {
+    await createTestClient()
+      .collection("tasks")
+      .where("assignee", "in", [null, "me"])
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.where).toEqual(
+      fieldFilter("assignee", "IN", {
+        arrayValue: { values: [{ nullValue: null }, { stringValue: "me" }] },
+      })
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  sentBody,
+  stubFetch,
+} from "./helpers";
+
+const fetchMock = stubFetch();
+
+describe("getAll", () => {
+  it("returns snapshots in the requested order, including missing documents", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        {
+          missing: `${documentsPath}/users/carol`,
+          readTime: "2026-01-01T00:00:00Z",
+        },
+        {
+          found: {
+            name: `${documentsPath}/users/bob`,
+            fields: { name: { stringValue: "Bob" } },
+          },
+          readTime: "2026-01-01T00:00:00Z",
+        },
+        {
+          found: {
+            name: `${documentsPath}/users/alice`,
+            fields: { name: { stringValue: "Alice" } },
+          },
+          readTime: "2026-01-01T00:00:00Z",
+        },
+      ])
+    );
+    const client = createTestClient();
+
+    const snapshots = await client.getAll(
+      client.doc("users/alice"),
+      client.doc("users/bob"),
+      client.doc("users/carol")
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("POST");
+    expect(url).toMatch(/documents:batchGet$/);
+    expect(JSON.parse(init.body)).toEqual({
+      documents: [
+        `${documentsPath}/users/alice`,
+        `${documentsPath}/users/bob`,
+        `${documentsPath}/users/carol`,
+      ],
+    });
+
+    expect(snapshots.map(s => s.id)).toEqual(["alice", "bob", "carol"]);
+    expect(snapshots.map(s => s.exists)).toEqual([true, true, false]);
+    expect(snapshots[0].data()?.name).toBe("Alice");
+    expect(snapshots[2].data()).toBeUndefined();
+  });
+
+  it("sends the field mask, transaction and read time", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([{ missing: `${documentsPath}/users/alice` }])
+    );
+    const client = createTestClient();
+
+    await client.getAll(client.doc("users/alice"), {
+      fieldMask: ["name", "profile.age"],
+      transaction: "tx1",
+      readTime: new Date("2026-01-01T00:00:00Z"),
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      documents: [`${documentsPath}/users/alice`],
+      mask: { fieldPaths: ["name", "profile.age"] },
+      transaction: "tx1",
+      readTime: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("reads at the exact read time of an earlier read", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        {
+          missing: `${documentsPath}/users/alice`,
+          readTime: "2026-01-01T00:00:00.123456Z",
+        },
+      ])
+    );
+    const client = createTestClient();
+    const [snapshot] = await client.getAll(client.doc("users/alice"));
+
+    await client.getAll(client.doc("users/alice"), {
+      readTime: snapshot.readTime,
+    });
+
+    expect(sentBody(fetchMock).readTime).toBe("2026-01-01T00:00:00.123456Z");
+  });
+
+  it("requests a repeated reference once but returns it for each position", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        { found: { name: `${documentsPath}/users/alice`, fields: {} } },
+      ])
+    );
+    const client = createTestClient();
+
+    const snapshots = await client.getAll(
+      client.doc("users/alice"),
+      client.doc("users/alice")
+    );
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).documents).toEqual([
+      `${documentsPath}/users/alice`,
+    ]);
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots.every(s => s.exists)).toBe(true);
+  });
+
+  it("requires at least one reference", async () => {
+    await expect(createTestClient().getAll({ fieldMask: [] })).rejects.toThrow(
+      /at least one document reference/
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,3 +1,5 @@
+import { afterEach, beforeEach, vi, Mock } from "vitest";
+import { createFirestoreClient } from "../src/client";
 import { FirestoreConfig } from "../src/types";
 import { formatPrivateKey } from "../src/utils/config";
 import dotenv from "dotenv";
@@ -13,7 +15,7 @@ export function loadConfig(): FirestoreConfig {
   const projectId = process.env.FIREBASE_PROJECT_ID;
   const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
   let privateKey = process.env.FIREBASE_PRIVATE_KEY;
-  
+
   // Load emulator settings from environment variables
   const useEmulator = process.env.FIRESTORE_EMULATOR === "true";
   const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST || "localhost";
@@ -36,7 +38,7 @@ export function loadConfig(): FirestoreConfig {
   if (privateKey) {
     privateKey = formatPrivateKey(privateKey);
   }
-  
+
   // Debug mode settings
   const debug = process.env.DEBUG_TESTS === "true";
 
@@ -47,7 +49,7 @@ export function loadConfig(): FirestoreConfig {
     useEmulator,
     emulatorHost,
     emulatorPort,
-    debug
+    debug,
   };
 }
 
@@ -62,3 +64,79 @@ export function getTestCollectionName(prefix: string = "test"): string {
   return `${prefix}_${timestamp}_${random}`;
 }
 
+/**
+ * Document path prefix of the project used by unit tests
+ */
+export const documentsPath =
+  "projects/test-project/databases/(default)/documents";
+
+/**
+ * Response of the stubbed fetch. A string body is sent as is, anything else
+ * as JSON. Unlike a real Response, the body can be read any number of times,
+ * so one response can answer several requests.
+ * @param body Response body
+ * @param status HTTP status
+ * @param headers Response headers
+ * @returns Response
+ */
+export function jsonResponse(
+  body: unknown,
+  status: number = 200,
+  headers: Record<string, string> = {}
+): Response {
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: "",
+    headers: new Headers(headers),
+    json: async () => JSON.parse(text),
+    text: async () => text,
+  } as Response;
+}
+
+/**
+ * Replace the global fetch with a mock in every test of the calling file, so
+ * requests can be checked without the emulator
+ * @param implementation Implementation the mock is reset to before each test
+ * @returns The fetch mock
+ */
+export function stubFetch(
+  implementation?: (url: string, init: RequestInit) => unknown
+): Mock {
+  const fetchMock = vi.fn();
+  beforeEach(() => {
+    fetchMock.mockReset();
+    if (implementation) {
+      fetchMock.mockImplementation(implementation);
+    }
+    vi.stubGlobal("fetch", fetchMock);
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  return fetchMock;
+}
+
+/**
+ * Create a client for unit tests, connected to the emulator address
+ * @param config Settings overriding the defaults
+ */
+export function createTestClient(config: Partial<FirestoreConfig> = {}) {
+  return createFirestoreClient({
+    projectId: "test-project",
+    useEmulator: true,
+    ...config,
+  });
+}
+
+/**
+ * JSON body of a request made through a fetch mock
+ * @param fetchMock The fetch mock
+ * @param call Index of the call (negative counts from the last call)
+ */
+export function sentBody(fetchMock: Mock, call: number = -1): any {
+  const { calls } = fetchMock.mock;
+  const [, init] = calls[call < 0 ? calls.length + call : call];
+  return JSON.parse(init.body);
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPairSync } from "crypto";
+import { FirestoreConfig, RequestInterceptor } from "../src/types";
+import { createTestClient, documentsPath, jsonResponse } from "./helpers";
+
+const document = {
+  name: `${documentsPath}/users/alice`,
+  fields: { name: { stringValue: "Alice" } },
+};
+
+const fetchMock = vi.fn();
+
+// Every request must go through the fetch given in the config
+beforeEach(() => {
+  fetchMock.mockReset();
+  fetchMock.mockImplementation(async () => jsonResponse(document));
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(() => {
+      throw new Error("global fetch must not be used");
+    })
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function makeClient(config: Partial<FirestoreConfig> = {}) {
+  return createTestClient({ fetch: fetchMock, ...config });
+}
+
+describe("custom fetch", () => {
+  it("is used for Firestore requests", async () => {
+    const user = await makeClient().get("users", "alice");
+
+    expect(user).toEqual({ id: "alice", name: "Alice" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/users\/alice$/);
+  });
+
+  it("is used for the OAuth token exchange", async () => {
+    const { privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ access_token: "token-123" }))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient({
+      useEmulator: false,
+      privateKey,
+      clientEmail: "sa@test-project.iam.gserviceaccount.com",
+    }).get("users", "alice");
+
+    const [[tokenUrl, tokenInit], [, init]] = fetchMock.mock.calls;
+    expect(tokenUrl).toBe("https://oauth2.googleapis.com/token");
+    expect(tokenInit.method).toBe("POST");
+    expect(init.headers.Authorization).toBe("Bearer token-123");
+  });
+});
+
+describe("interceptors", () => {
+  it("run in order and may replace the request and response", async () => {
+    const events: string[] = [];
+    const interceptors: RequestInterceptor[] = [
+      {
+        onRequest: request => {
+          events.push("first request");
+          return {
+            ...request,
+            init: {
+              ...request.init,
+              headers: {
+                ...(request.init.headers as Record<string, string>),
+                "X-Trace-Id": "abc",
+              },
+            },
+          };
+        },
+        onResponse: response => {
+          events.push(`first response ${response.status}`);
+        },
+      },
+      {
+        onRequest: () => {
+          events.push("second request");
+        },
+        onResponse: async (response, request) => {
+          events.push(`second response ${response.status}`);
+          expect(request.init.headers).toMatchObject({ "X-Trace-Id": "abc" });
+          return jsonResponse({ ...document, fields: {} });
+        },
+      },
+    ];
+
+    const user = await makeClient({ interceptors }).get("users", "alice");
+
+    expect(fetchMock.mock.calls[0][1].headers["X-Trace-Id"]).toBe("abc");
+    expect(events).toEqual([
+      "first request",
+      "second request",
+      "first response 200",
+      "second response 200",
+    ]);
+    expect(user).toEqual({ id: "alice" });
+  });
+
+  it("see error responses and every retry attempt", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({ error: { code: 503, status: "UNAVAILABLE" } }, 503)
+      )
+      .mockResolvedValueOnce(jsonResponse(document));
+    const statuses: number[] = [];
+
+    await makeClient({
+      retry: { clock: { now: () => 0, sleep: async () => undefined } },
+      interceptors: [
+        { onResponse: response => void statuses.push(response.status) },
+      ],
+    }).get("users", "alice");
+
+    expect(statuses).toEqual([503, 200]);
+  });
+
+  it("are told about network failures", async () => {
+    const failure = new TypeError("fetch failed");
+    fetchMock.mockRejectedValue(failure);
+    const onError = vi.fn();
+
+    await expect(
+      makeClient({ retry: false, interceptors: [{ onError }] }).delete(
+        "users",
+        "alice"
+      )
+    ).rejects.toBe(failure);
+    expect(onError).toHaveBeenCalledWith(
+      failure,
+      expect.objectContaining({
+        init: expect.objectContaining({ method: "POST" }),
+      })
+    );
+  });
+});
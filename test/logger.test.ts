@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPairSync } from "crypto";
+import { AccessTokenCredentials } from "../src/credentials";
+import { FirestoreConfig, LogFields, Logger } from "../src/types";
+import { redact } from "../src/utils/logger";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+const document = {
+  name: `${documentsPath}/users/alice`,
+  fields: { name: { stringValue: "Alice" } },
+};
+
+const fetchMock = stubFetch(async () => jsonResponse(document));
+let entries: Array<{ level: string; message: string; fields?: LogFields }>;
+
+const logger: Logger = {
+  debug: (message, fields) => entries.push({ level: "debug", message, fields }),
+  info: (message, fields) => entries.push({ level: "info", message, fields }),
+  warn: (message, fields) => entries.push({ level: "warn", message, fields }),
+  error: (message, fields) => entries.push({ level: "error", message, fields }),
+};
+
+beforeEach(() => {
+  entries = [];
+  for (const method of ["log", "debug", "info", "warn", "error"] as const) {
+    vi.spyOn(console, method).mockImplementation(() => undefined);
+  }
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function makeClient(config: Partial<FirestoreConfig> = {}) {
+  return createTestClient({ retry: false, ...config });
+}
+
+function consoleCalls() {
+  return ["log", "debug", "info", "warn", "error"].flatMap(
+    method => vi.mocked(console[method as "log"]).mock.calls
+  );
+}
+
+describe("logging", () => {
+  it("is silent by default, including for failed requests", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ error: { code: 403, status: "PERMISSION_DENIED" } }, 403)
+    );
+    const client = makeClient();
+
+    await expect(client.get("users", "alice")).rejects.toThrow();
+    await expect(client.query("users")).rejects.toThrow();
+
+    expect(consoleCalls()).toEqual([]);
+  });
+
+  it("goes to the console with debug", async () => {
+    await makeClient({ debug: true }).get("users", "alice");
+
+    expect(console.debug).toHaveBeenCalledWith(
+      "Getting document",
+      expect.objectContaining({ documentId: "alice" })
+    );
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it("goes to the configured logger with structured fields", async () => {
+    await makeClient({ logger, debug: true }).get("users", "alice");
+
+    expect(consoleCalls()).toEqual([]);
+    expect(entries).toContainEqual({
+      level: "debug",
+      message: "Received response",
+      fields: {
+        method: "GET",
+        url: expect.stringMatching(/\/users\/alice$/),
+        status: 200,
+      },
+    });
+  });
+
+  it("reports retries", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({ error: { code: 503, status: "UNAVAILABLE" } }, 503)
+      )
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient({
+      logger,
+      retry: { clock: { now: () => 0, sleep: async () => undefined } },
+    }).get("users", "alice");
+
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        level: "info",
+        message: "Retrying request",
+        fields: expect.objectContaining({ attempt: 2, maxAttempts: 5 }),
+      })
+    );
+  });
+
+  it("redacts the private key and the Authorization header", async () => {
+    const { privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ access_token: "token-123" }))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient({
+      logger,
+      useEmulator: false,
+      privateKey,
+      clientEmail: "sa@test-project.iam.gserviceaccount.com",
+    }).get("users", "alice");
+
+    const logged = JSON.stringify(entries);
+    expect(logged).not.toContain("PRIVATE KEY");
+    expect(logged).not.toContain("token-123");
+    expect(entries[0].fields?.config).toMatchObject({
+      privateKey: "[REDACTED]",
+      clientEmail: "sa@test-project.iam.gserviceaccount.com",
+    });
+    expect(
+      entries.find(entry => entry.message === "Sending request")?.fields
+    ).toMatchObject({ headers: { Authorization: "[REDACTED]" } });
+  });
+});
+
+describe("redact", () => {
+  it("replaces secrets at any depth without changing the input", () => {
+    const value = {
+      privateKey: "key",
+      nested: [{ authorization: "Bearer abc", access_token: "abc" }],
+      credentials: new AccessTokenCredentials("abc"),
+      keep: 1,
+    };
+
+    expect(redact(value)).toEqual({
+      privateKey: "[REDACTED]",
+      nested: [{ authorization: "[REDACTED]", access_token: "[REDACTED]" }],
+      credentials: "[REDACTED]",
+      keep: 1,
+    });
+    expect(value.privateKey).toBe("key");
+  });
+
+  it("handles Headers, errors and circular references", () => {
+    const error = new Error("boom");
+    const circular: Record<string, unknown> = { error };
+    circular.self = circular;
+
+    expect(redact(new Headers({ Authorization: "Bearer abc" }))).toEqual({
+      authorization: "[REDACTED]",
+    });
+    expect(redact(circular)).toEqual({ error, self: "[Circular]" });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  sentBody,
+  stubFetch,
+} from "./helpers";
+
+const fetchMock = stubFetch(async () => jsonResponse([]));
+
+function mockRunQueryResponse(ids: string[]) {
+  const body = ids.map(id => ({
+    document: { name: `${documentsPath}/scores/${id}`, fields: {} },
+  }));
+  fetchMock.mockResolvedValue(jsonResponse(body));
+}
+
+describe("orderBy()", () => {
+  it("keeps every ordering in call order", async () => {
+    await createTestClient()
+      .collection("scores")
+      .orderBy("level", "desc")
+      .orderBy("points")
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.orderBy).toEqual([
+      { field: { fieldPath: "level" }, direction: "DESCENDING" },
+      { field: { fieldPath: "points" }, direction: "ASCENDING" },
+    ]);
+  });
+
+  it("does not change the query it was called on", async () => {
+    const byLevel = createTestClient().collection("scores").orderBy("level");
+    byLevel.orderBy("points");
+
+    await byLevel.get();
+
+    expect(sentBody(fetchMock).structuredQuery.orderBy).toHaveLength(1);
+  });
+
+  it("accepts a list of orderings in client.query()", async () => {
+    await createTestClient().query("scores", {
+      orderBy: [
+        { field: "level", direction: "DESCENDING" },
+        { field: "points" },
+      ],
+    });
+
+    expect(sentBody(fetchMock).structuredQuery.orderBy).toEqual([
+      { field: { fieldPath: "level" }, direction: "DESCENDING" },
+      { field: { fieldPath: "points" }, direction: "ASCENDING" },
+    ]);
+  });
+
+  it("matches cursor values to multiple orderings", async () => {
+    await createTestClient()
+      .collection("scores")
+      .orderBy("level")
+      .orderBy("points")
+      .startAt(3, 100)
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.startAt.values).toEqual([
+      { integerValue: 3 },
+      { integerValue: 100 },
+    ]);
+  });
+});
+
+describe("limitToLast()", () => {
+  it("reverses the orderings and the results", async () => {
+    mockRunQueryResponse(["c", "b"]);
+
+    const snapshot = await createTestClient()
+      .collection("scores")
+      .orderBy("level", "desc")
+      .orderBy("points")
+      .limitToLast(2)
+      .get();
+
+    const query = sentBody(fetchMock).structuredQuery;
+    expect(query.orderBy).toEqual([
+      { field: { fieldPath: "level" }, direction: "ASCENDING" },
+      { field: { fieldPath: "points" }, direction: "DESCENDING" },
+    ]);
+    expect(query.limit).toBe(2);
+    expect(snapshot.docs.map(doc => doc.id)).toEqual(["b", "c"]);
+  });
+
+  it("swaps and flips the cursors", async () => {
+    await createTestClient()
+      .collection("scores")
+      .orderBy("points")
+      .startAfter(10)
+      .endAt(50)
+      .limitToLast(5)
+      .get();
+
+    const query = sentBody(fetchMock).structuredQuery;
+    expect(query.startAt).toEqual({
+      values: [{ integerValue: 50 }],
+      before: true,
+    });
+    expect(query.endAt).toEqual({
+      values: [{ integerValue: 10 }],
+      before: true,
+    });
+  });
+
+  it("is replaced by a later limit() and vice versa", async () => {
+    const ordered = createTestClient().collection("scores").orderBy("points");
+
+    await ordered.limitToLast(5).limit(3).get();
+    expect(sentBody(fetchMock).structuredQuery.orderBy[0].direction).toBe(
+      "ASCENDING"
+    );
+    expect(sentBody(fetchMock).structuredQuery.limit).toBe(3);
+
+    await ordered.limit(3).limitToLast(5).get();
+    expect(sentBody(fetchMock).structuredQuery.orderBy[0].direction).toBe(
+      "DESCENDING"
+    );
+    expect(sentBody(fetchMock).structuredQuery.limit).toBe(5);
+  });
+
+  it("requires an orderBy() clause", async () => {
+    await expect(
+      createTestClient().collection("scores").limit(1).limitToLast(2).get()
+    ).rejects.toThrow(/at least one orderBy\(\) clause/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
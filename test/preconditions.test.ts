@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { FailedPreconditionError } from "../src/errors";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+const storedDocument = {
+  name: `${documentsPath}/users/alice`,
+  fields: { count: { integerValue: "1" } },
+  createTime: "2026-01-01T00:00:00.000000Z",
+  updateTime: "2026-01-02T03:04:05.678912Z",
+};
+
+const commitResponse = {
+  writeResults: [{}],
+  commitTime: "2026-01-02T03:04:06Z",
+};
+
+const fetchMock = stubFetch();
+
+function requestedUrl(call: number): URL {
+  return new URL(fetchMock.mock.calls[call][0]);
+}
+
+describe("DocumentReference preconditions", () => {
+  it("sends the exact updateTime of a snapshot as lastUpdateTime", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(storedDocument));
+    const ref = createTestClient().doc("users/alice");
+
+    const snapshot = await ref.get();
+    await ref.update({ count: 2 }, { lastUpdateTime: snapshot.updateTime });
+
+    const url = requestedUrl(1);
+    expect(url.searchParams.get("currentDocument.updateTime")).toBe(
+      "2026-01-02T03:04:05.678912Z"
+    );
+    expect(url.searchParams.has("currentDocument.exists")).toBe(false);
+  });
+
+  it("sends other Dates as ISO strings", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(storedDocument));
+
+    await createTestClient()
+      .doc("users/alice")
+      .update({ count: 2 }, { lastUpdateTime: new Date(Date.UTC(2026, 0, 2)) });
+
+    expect(requestedUrl(0).searchParams.get("currentDocument.updateTime")).toBe(
+      "2026-01-02T00:00:00.000Z"
+    );
+  });
+
+  it("keeps exists: true as the update default", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(storedDocument));
+
+    await createTestClient().doc("users/alice").update({ count: 2 });
+
+    expect(requestedUrl(0).searchParams.get("currentDocument.exists")).toBe(
+      "true"
+    );
+  });
+
+  it("adds an exists precondition to set()", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(storedDocument));
+
+    await createTestClient()
+      .doc("users/alice")
+      .set({ count: 1 }, { exists: false });
+
+    const url = requestedUrl(0);
+    expect(fetchMock.mock.calls[0][1].method).toBe("PATCH");
+    expect(url.searchParams.get("currentDocument.exists")).toBe("false");
+    expect(url.searchParams.has("updateMask.fieldPaths")).toBe(false);
+  });
+
+  it("adds the precondition to a delete", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(commitResponse));
+
+    await createTestClient().doc("users/alice").delete({ exists: true });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      writes: [
+        {
+          delete: `${documentsPath}/users/alice`,
+          currentDocument: { exists: true },
+        },
+      ],
+    });
+  });
+
+  it("throws FailedPreconditionError when the document has changed", async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      text: async () =>
+        JSON.stringify({
+          error: { code: 400, status: "FAILED_PRECONDITION" },
+        }),
+    });
+
+    const error = await createTestClient()
+      .doc("users/alice")
+      .update({ count: 2 }, { lastUpdateTime: new Date() })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(FailedPreconditionError);
+    expect(error.status).toBe(400);
+  });
+
+  it("rejects exists combined with lastUpdateTime", async () => {
+    await expect(
+      createTestClient()
+        .doc("users/alice")
+        .delete({ exists: true, lastUpdateTime: new Date() })
+    ).rejects.toThrow("either exists or lastUpdateTime");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("WriteBatch preconditions", () => {
+  it("adds currentDocument to each write", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        writeResults: [{}, {}, {}],
+        commitTime: "2026-01-02T03:04:06Z",
+      })
+    );
+    const client = createTestClient();
+    const lastUpdateTime = new Date("2026-01-02T03:04:05.678Z");
+
+    await client
+      .batch()
+      .update(client.doc("users/alice"), { count: 2 }, { lastUpdateTime })
+      .set(client.doc("users/bob"), { count: 1 }, { exists: false })
+      .delete(client.doc("users/carol"), { lastUpdateTime })
+      .commit();
+
+    const { writes } = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(writes.map((write: any) => write.currentDocument)).toEqual([
+      { updateTime: "2026-01-02T03:04:05.678Z" },
+      { exists: false },
+      { updateTime: "2026-01-02T03:04:05.678Z" },
+    ]);
+  });
+});
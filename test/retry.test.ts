@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { FirestoreError } from "../src/errors";
+import { Clock, RetryOptions } from "../src/types";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+const document = {
+  name: `${documentsPath}/users/alice`,
+  fields: { name: { stringValue: "Alice" } },
+  updateTime: "2026-01-01T00:00:00Z",
+};
+
+const fetchMock = stubFetch();
+let delays: number[];
+
+const clock: Clock = {
+  now: () => Date.UTC(2026, 0, 1),
+  sleep: async ms => {
+    delays.push(ms);
+  },
+};
+
+function respondError(
+  status: number,
+  code: string,
+  headers: Record<string, string> = {}
+) {
+  return jsonResponse(
+    { error: { code: status, status: code } },
+    status,
+    headers
+  );
+}
+
+beforeEach(() => {
+  delays = [];
+  // Take the full backoff delay, so the delays are predictable
+  vi.spyOn(Math, "random").mockReturnValue(1);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function makeClient(retry: RetryOptions | false = {}) {
+  return createTestClient({ retry: retry && { clock, ...retry } });
+}
+
+describe("retry policy", () => {
+  it("retries transient errors with exponential backoff", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"))
+      .mockResolvedValueOnce(respondError(500, "INTERNAL"))
+      .mockResolvedValueOnce(respondError(429, "RESOURCE_EXHAUSTED"))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    const user = await makeClient().get("users", "alice");
+
+    expect(user).toEqual({ id: "alice", name: "Alice" });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(delays).toEqual([100, 200, 400]);
+  });
+
+  it("randomizes the delay by up to half", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    fetchMock
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient({ baseDelayMs: 1000 }).get("users", "alice");
+
+    expect(delays).toEqual([500]);
+  });
+
+  it("caps the delay at maxDelayMs", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"))
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient({ baseDelayMs: 1000, maxDelayMs: 1500 }).get(
+      "users",
+      "alice"
+    );
+
+    expect(delays).toEqual([1000, 1500]);
+  });
+
+  it("throws the last error after maxAttempts", async () => {
+    fetchMock.mockResolvedValue(respondError(503, "UNAVAILABLE"));
+
+    const error = await makeClient({ maxAttempts: 3 })
+      .doc("users/alice")
+      .set({ name: "Alice" })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error.code).toBe("UNAVAILABLE");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry other errors", async () => {
+    fetchMock.mockResolvedValue(respondError(400, "INVALID_ARGUMENT"));
+
+    await expect(makeClient().collection("users").get()).rejects.toThrow(
+      /INVALID_ARGUMENT/
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries only the configured codes", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respondError(403, "PERMISSION_DENIED"))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient({ retryableCodes: ["PERMISSION_DENIED"] }).get(
+      "users",
+      "alice"
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("can be disabled", async () => {
+    fetchMock.mockResolvedValue(respondError(503, "UNAVAILABLE"));
+
+    await expect(makeClient(false).delete("users", "alice")).rejects.toThrow(
+      /UNAVAILABLE/
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries deletes without a precondition", async () => {
+    const committed = {
+      writeResults: [{}],
+      commitTime: "2026-01-01T00:00:00Z",
+    };
+    fetchMock
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"))
+      .mockResolvedValueOnce(jsonResponse(committed))
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"));
+    const client = makeClient();
+
+    await client.delete("users", "alice");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await expect(
+      client.doc("users/alice").delete({ exists: true })
+    ).rejects.toThrow(/UNAVAILABLE/);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries network failures of idempotent requests", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient().get("users", "alice");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("Retry-After", () => {
+  it("waits the given number of seconds", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        respondError(429, "RESOURCE_EXHAUSTED", { "Retry-After": "3" })
+      )
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient().get("users", "alice");
+
+    expect(delays).toEqual([3000]);
+  });
+
+  it("waits until the given date", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        respondError(503, "UNAVAILABLE", {
+          "Retry-After": "Thu, 01 Jan 2026 00:00:05 GMT",
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient().get("users", "alice");
+
+    expect(delays).toEqual([5000]);
+  });
+
+  it("waits no longer than maxDelayMs", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        respondError(503, "UNAVAILABLE", { "Retry-After": "3600" })
+      )
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient({ maxDelayMs: 2000 }).get("users", "alice");
+
+    expect(delays).toEqual([2000]);
+  });
+});
+
+describe("transactional reads", () => {
+  it("are not retried on ABORTED", async () => {
+    fetchMock.mockResolvedValue(respondError(409, "ABORTED"));
+    const client = makeClient();
+
+    await expect(
+      client.get("users", "alice", { transaction: "tx-1" })
+    ).rejects.toMatchObject({ code: "ABORTED" });
+    await expect(
+      client.getAll(client.doc("users/alice"), { transaction: "tx-1" })
+    ).rejects.toMatchObject({ code: "ABORTED" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("are retried on other transient errors", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient().get("users", "alice", { transaction: "tx-1" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("leave ABORTED to runTransaction(), which starts over", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ transaction: "tx-1" }))
+      .mockResolvedValueOnce(respondError(409, "ABORTED"))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse({ transaction: "tx-2" }))
+      .mockResolvedValueOnce(jsonResponse(document))
+      .mockResolvedValueOnce(
+        jsonResponse({ commitTime: "2026-01-01T00:00:00Z" })
+      );
+    const client = makeClient();
+
+    const name = await client.runTransaction(async transaction => {
+      const snapshot = await transaction.get(client.doc("users/alice"));
+      return snapshot.get("name");
+    });
+
+    expect(name).toBe("Alice");
+    expect(fetchMock.mock.calls.map(([url]) => url.split("/").pop())).toEqual([
+      "documents:beginTransaction",
+      "alice?transaction=tx-1",
+      "documents:rollback",
+      "documents:beginTransaction",
+      "alice?transaction=tx-2",
+      "documents:commit",
+    ]);
+  });
+});
+
+describe("non-idempotent requests", () => {
+  it("does not replay add() after a transient error", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"));
+    const client = makeClient();
+
+    await expect(client.add("users", { name: "Alice" })).rejects.toThrow(
+      "fetch failed"
+    );
+    await expect(client.add("users", { name: "Alice" })).rejects.toThrow(
+      /UNAVAILABLE/
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not replay a commit after a transient error", async () => {
+    fetchMock.mockResolvedValue(respondError(503, "UNAVAILABLE"));
+    const client = makeClient();
+
+    await expect(
+      client.batch().delete(client.doc("users/alice")).commit()
+    ).rejects.toThrow(/UNAVAILABLE/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not replay a write whose precondition the first attempt may break", async () => {
+    fetchMock.mockResolvedValue(respondError(503, "UNAVAILABLE"));
+    const ref = makeClient().doc("users/alice");
+
+    await expect(
+      ref.update({ name: "Bob" }, { lastUpdateTime: new Date() })
+    ).rejects.toThrow(/UNAVAILABLE/);
+    await expect(ref.set({ name: "Bob" }, { exists: false })).rejects.toThrow(
+      /UNAVAILABLE/
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("replays a write that requires the document to exist", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respondError(503, "UNAVAILABLE"))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient().doc("users/alice").update({ name: "Bob" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toContain("currentDocument.exists=true");
+  });
+
+  it("retries RESOURCE_EXHAUSTED, which means nothing was applied", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respondError(429, "RESOURCE_EXHAUSTED"))
+      .mockResolvedValueOnce(jsonResponse(document));
+
+    await makeClient().add("users", { name: "Alice" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].method).toBe("POST");
+  });
+});
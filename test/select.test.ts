@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { count } from "../src/aggregate";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  sentBody,
+  stubFetch,
+} from "./helpers";
+
+const fetchMock = stubFetch(async () => jsonResponse([]));
+
+describe("select()", () => {
+  it("sends the selected field paths", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        {
+          document: {
+            name: `${documentsPath}/users/alice`,
+            fields: { name: { stringValue: "Alice" } },
+          },
+        },
+      ])
+    );
+
+    const snapshot = await createTestClient()
+      .collection("users")
+      .where("active", "==", true)
+      .select("name", "profile.age")
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.select).toEqual({
+      fields: [{ fieldPath: "name" }, { fieldPath: "profile.age" }],
+    });
+    expect(snapshot.docs[0].data()).toEqual({ name: "Alice" });
+  });
+
+  it("returns only document names without arguments", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        { document: { name: `${documentsPath}/users/alice` } },
+        { document: { name: `${documentsPath}/users/bob` } },
+      ])
+    );
+
+    const snapshot = await createTestClient()
+      .collectionGroup("users")
+      .select()
+      .get();
+
+    expect(sentBody(fetchMock).structuredQuery.select).toEqual({
+      fields: [{ fieldPath: "__name__" }],
+    });
+    expect(snapshot.docs.map(doc => doc.id)).toEqual(["alice", "bob"]);
+    expect(snapshot.docs[0].data()).toEqual({});
+  });
+
+  it("replaces an earlier projection", async () => {
+    await createTestClient().collection("users").select("a").select("b").get();
+
+    expect(sentBody(fetchMock).structuredQuery.select).toEqual({
+      fields: [{ fieldPath: "b" }],
+    });
+  });
+
+  it("is not sent with aggregations", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        { result: { aggregateFields: { n: { integerValue: "1" } } } },
+      ])
+    );
+
+    await createTestClient()
+      .collection("users")
+      .select("name")
+      .aggregate({ n: count() })
+      .get();
+
+    expect(
+      sentBody(fetchMock).structuredAggregationQuery.structuredQuery.select
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import { FieldValue } from "../src/field-value";
+import { collectLeafFieldPaths, prepareSetWrite } from "../src/utils/converter";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+/**
+ * Unit tests for set() semantics. A plain set() is a single overwrite, and
+ * `merge` / `mergeFields` are applied server side with an update mask; the
+ * document is never read first.
+ */
+
+const documentResponse = {
+  name: `${documentsPath}/users/u1`,
+  fields: { name: { stringValue: "Alice" } },
+  updateTime: "2026-01-01T00:00:00Z",
+};
+
+const fetchMock = stubFetch(async () => jsonResponse(documentResponse));
+
+describe("DocumentReference.set()", () => {
+  it("overwrites with a single PATCH and no mask", async () => {
+    await createTestClient().doc("users/u1").set({ name: "Alice" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("PATCH");
+    expect(new URL(url).search).toBe("");
+    expect(JSON.parse(init.body)).toEqual({
+      fields: { name: { stringValue: "Alice" } },
+    });
+  });
+
+  it("merges leaf fields server side with { merge: true }", async () => {
+    await createTestClient()
+      .doc("users/u1")
+      .set(
+        { name: "Alice", profile: { age: 30, "home-town": "Tokyo" } },
+        { merge: true }
+      );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("PATCH");
+    const params = new URL(url).searchParams;
+    expect(params.getAll("updateMask.fieldPaths")).toEqual([
+      "name",
+      "profile.age",
+      "profile.`home-town`",
+    ]);
+    expect(params.has("currentDocument.exists")).toBe(false);
+  });
+
+  it("only writes the listed paths with { mergeFields }", async () => {
+    await createTestClient()
+      .doc("users/u1")
+      .set(
+        { name: "Alice", profile: { age: 30, city: "Tokyo" } },
+        { mergeFields: ["profile.age"] }
+      );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(new URL(url).searchParams.getAll("updateMask.fieldPaths")).toEqual([
+      "profile.age",
+    ]);
+    expect(JSON.parse(init.body)).toEqual({
+      fields: {
+        profile: { mapValue: { fields: { age: { integerValue: 30 } } } },
+      },
+    });
+  });
+
+  it("removes fields set to FieldValue.delete() when merging", async () => {
+    await createTestClient()
+      .doc("users/u1")
+      .set(
+        { name: "Alice", profile: { city: FieldValue.delete() } },
+        { merge: true }
+      );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(new URL(url).searchParams.getAll("updateMask.fieldPaths")).toEqual([
+      "name",
+      "profile.city",
+    ]);
+    expect(JSON.parse(init.body).fields).toEqual({
+      name: { stringValue: "Alice" },
+      profile: { mapValue: { fields: {} } },
+    });
+  });
+
+  it("rejects FieldValue.delete() in a plain set()", async () => {
+    await expect(
+      createTestClient().doc("users/u1").set({ name: FieldValue.delete() })
+    ).rejects.toThrow(/FieldValue.delete\(\) can only be used/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("routes a merge with transforms through commit", async () => {
+    await createTestClient()
+      .doc("users/u1")
+      .set(
+        { name: "Alice", updatedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/documents:commit$/);
+    expect(JSON.parse(init.body).writes[0]).toEqual({
+      update: {
+        name: `${documentsPath}/users/u1`,
+        fields: { name: { stringValue: "Alice" } },
+      },
+      updateMask: { fieldPaths: ["name"] },
+      updateTransforms: [
+        { fieldPath: "updatedAt", setToServerValue: "REQUEST_TIME" },
+      ],
+    });
+  });
+});
+
+describe("WriteBatch.set() with merge", () => {
+  it("adds the merge mask to the commit write", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ writeResults: [{}], commitTime: "2026-01-01T00:00:00Z" })
+    );
+    const client = createTestClient();
+    await client
+      .batch()
+      .set(client.doc("users/u1"), { a: { b: 1 } }, { merge: true })
+      .commit();
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).writes[0]).toEqual({
+      update: {
+        name: `${documentsPath}/users/u1`,
+        fields: { a: { mapValue: { fields: { b: { integerValue: 1 } } } } },
+      },
+      updateMask: { fieldPaths: ["a.b"] },
+    });
+  });
+});
+
+describe("collectLeafFieldPaths", () => {
+  it("recurses into plain objects only", () => {
+    const date = new Date();
+    expect(
+      collectLeafFieldPaths({
+        a: 1,
+        b: { c: date, d: [1, 2], e: {} },
+        f: FieldValue.serverTimestamp(),
+      })
+    ).toEqual(["a", "b.c", "b.d", "b.e"]);
+  });
+});
+
+describe("prepareSetWrite", () => {
+  it("rejects merge together with mergeFields", () => {
+    expect(() =>
+      prepareSetWrite({ a: 1 }, { merge: true, mergeFields: ["a"] })
+    ).toThrow(/both merge and mergeFields/);
+  });
+
+  it("rejects mergeFields that are missing from the data", () => {
+    expect(() => prepareSetWrite({ a: 1 }, { mergeFields: ["b.c"] })).toThrow(
+      /missing from the data/
+    );
+  });
+});
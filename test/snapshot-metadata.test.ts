@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { DocumentReference, DocumentSnapshot } from "../src/client";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+const postDocument = {
+  name: `${documentsPath}/users/alice/posts/p1`,
+  fields: {
+    title: { stringValue: "Hello" },
+    meta: {
+      mapValue: {
+        fields: {
+          stats: { mapValue: { fields: { likes: { integerValue: "3" } } } },
+        },
+      },
+    },
+  },
+  createTime: "2026-01-01T00:00:00.000000Z",
+  updateTime: "2026-01-02T00:00:00.000000Z",
+};
+
+const fetchMock = stubFetch();
+
+describe("DocumentSnapshot metadata", () => {
+  it("exposes the reference and timestamps of a single document", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(postDocument));
+    const ref = createTestClient().doc("users/alice/posts/p1");
+
+    const snapshot = await ref.get();
+
+    expect(snapshot.ref).toBe(ref);
+    expect(snapshot.createTime).toEqual(new Date("2026-01-01T00:00:00Z"));
+    expect(snapshot.updateTime).toEqual(new Date("2026-01-02T00:00:00Z"));
+    expect(snapshot.readTime).toBeUndefined();
+  });
+
+  it("points collection group results into their own collection", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        { document: postDocument, readTime: "2026-01-03T00:00:00Z" },
+      ])
+    );
+
+    const snapshot = await createTestClient().collectionGroup("posts").get();
+    const [doc] = snapshot.docs;
+
+    expect(doc.ref).toBeInstanceOf(DocumentReference);
+    expect(doc.ref.path).toBe("users/alice/posts/p1");
+    expect(doc.ref.parent.path).toBe("users/alice/posts");
+    expect(doc.id).toBe("p1");
+    expect(doc.readTime).toEqual(new Date("2026-01-03T00:00:00Z"));
+    expect(doc.updateTime).toEqual(new Date("2026-01-02T00:00:00Z"));
+  });
+
+  it("sets readTime for getAll(), including missing documents", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        { found: postDocument, readTime: "2026-01-03T00:00:00Z" },
+        {
+          missing: `${documentsPath}/users/bob/posts/p2`,
+          readTime: "2026-01-03T00:00:00Z",
+        },
+      ])
+    );
+    const client = createTestClient();
+
+    const [found, missing] = await client.getAll(
+      client.doc("users/alice/posts/p1"),
+      client.doc("users/bob/posts/p2")
+    );
+
+    expect(found.createTime).toEqual(new Date("2026-01-01T00:00:00Z"));
+    expect(found.readTime).toEqual(new Date("2026-01-03T00:00:00Z"));
+    expect(missing.exists).toBe(false);
+    expect(missing.ref.path).toBe("users/bob/posts/p2");
+    expect(missing.createTime).toBeUndefined();
+    expect(missing.readTime).toEqual(new Date("2026-01-03T00:00:00Z"));
+  });
+});
+
+describe("DocumentSnapshot.get()", () => {
+  it("reads nested fields by path", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(postDocument));
+
+    const snapshot = await createTestClient().doc("users/alice/posts/p1").get();
+
+    expect(snapshot.get("title")).toBe("Hello");
+    expect(snapshot.get("meta.stats.likes")).toBe(3);
+    expect(snapshot.get("meta.stats")).toEqual({ likes: 3 });
+    expect(snapshot.get("meta.missing.likes")).toBeUndefined();
+  });
+
+  it("reads field names with dots in backticks", async () => {
+    const snapshot = new DocumentSnapshot(createTestClient().doc("a/b"), {
+      "a.b": 1,
+      "x`y": { "c.d": 2 },
+    });
+
+    expect(snapshot.get("`a.b`")).toBe(1);
+    expect(snapshot.get("`x\\`y`.`c.d`")).toBe(2);
+    expect(snapshot.get("a.b")).toBeUndefined();
+  });
+
+  it("returns undefined for a missing document", async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      text: async () => "{}",
+    });
+
+    const snapshot = await createTestClient().doc("users/nobody").get();
+
+    expect(snapshot.exists).toBe(false);
+    expect(snapshot.get("name")).toBeUndefined();
+    expect(snapshot.ref.id).toBe("nobody");
+  });
+});
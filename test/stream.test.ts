@@ -0,0 +1,267 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseJsonArrayStream } from "../src/utils/json-stream";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("parseJsonArrayStream", () => {
+  it("yields elements split across chunks", async () => {
+    const json = JSON.stringify([
+      { a: "x,y]}" },
+      { b: 'quote " and \\ backslash' },
+      [1, [2]],
+      "日本語",
+    ]);
+    // Split into 3-byte chunks, cutting through strings and multi-byte chars
+    const bytes = new TextEncoder().encode(json);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 3) {
+          controller.enqueue(bytes.slice(i, i + 3));
+        }
+        controller.close();
+      },
+    });
+
+    expect(await collect(parseJsonArrayStream(body))).toEqual(JSON.parse(json));
+  });
+
+  it("handles empty arrays and surrounding whitespace", async () => {
+    expect(
+      await collect(parseJsonArrayStream(streamOf([" [ ", "]\n"])))
+    ).toEqual([]);
+  });
+
+  it("rejects bodies that are not a complete array", async () => {
+    await expect(
+      collect(parseJsonArrayStream(streamOf(['{"a":1}'])))
+    ).rejects.toThrow(/Expected a JSON array/);
+    await expect(
+      collect(parseJsonArrayStream(streamOf(['[{"a":1},'])))
+    ).rejects.toThrow(/Unexpected end/);
+  });
+
+  it("cancels the body when iteration stops early", async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode('[{"a":1},{"a":2},'));
+      },
+      cancel,
+    });
+
+    for await (const item of parseJsonArrayStream(body)) {
+      expect(item).toEqual({ a: 1 });
+      break;
+    }
+    expect(cancel).toHaveBeenCalled();
+  });
+});
+
+describe("stream()", () => {
+  const fetchMock = stubFetch();
+
+  function page(ids: string[]) {
+    const items = ids.map(id => ({
+      document: {
+        name: `${documentsPath}/scores/${id}`,
+        fields: { points: { integerValue: id.length } },
+      },
+      readTime: "2026-01-01T00:00:00Z",
+    }));
+    return {
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      body: streamOf([JSON.stringify(items)]),
+    };
+  }
+
+  function sentQuery(call: number): any {
+    return JSON.parse(fetchMock.mock.calls[call][1].body).structuredQuery;
+  }
+
+  it("continues after the last document of each full page", async () => {
+    fetchMock
+      .mockResolvedValueOnce(page(["a", "bb"]))
+      .mockResolvedValueOnce(page(["ccc"]));
+
+    const snapshots = await collect(
+      createTestClient()
+        .collection("scores")
+        .orderBy("points", "desc")
+        .offset(1)
+        .stream({ pageSize: 2 })
+    );
+
+    expect(snapshots.map(s => s.id)).toEqual(["a", "bb", "ccc"]);
+    expect(snapshots[1].data()).toEqual({ points: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const first = sentQuery(0);
+    expect(first.orderBy).toEqual([
+      { field: { fieldPath: "points" }, direction: "DESCENDING" },
+      { field: { fieldPath: "__name__" }, direction: "DESCENDING" },
+    ]);
+    expect(first.limit).toBe(2);
+    expect(first.offset).toBe(1);
+    expect(first.startAt).toBeUndefined();
+
+    const second = sentQuery(1);
+    expect(second.startAt).toEqual({
+      values: [
+        { integerValue: 2 },
+        { referenceValue: `${documentsPath}/scores/bb` },
+      ],
+      before: false,
+    });
+    expect(second.offset).toBeUndefined();
+  });
+
+  it("continues from the exact stored values of escaped field paths", async () => {
+    const document = {
+      name: `${documentsPath}/events/e1`,
+      fields: {
+        "my-field": {
+          mapValue: {
+            fields: { at: { timestampValue: "2026-01-02T03:04:05.678912Z" } },
+          },
+        },
+        count: { integerValue: "9007199254740993" },
+      },
+    };
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        body: streamOf([JSON.stringify([{ document }])]),
+      })
+      .mockResolvedValueOnce(page([]));
+
+    await collect(
+      createTestClient()
+        .collection("events")
+        .orderBy("`my-field`.at")
+        .orderBy("count")
+        .stream({ pageSize: 1 })
+    );
+
+    expect(sentQuery(1).startAt.values).toEqual([
+      { timestampValue: "2026-01-02T03:04:05.678912Z" },
+      { integerValue: "9007199254740993" },
+      { referenceValue: `${documentsPath}/events/e1` },
+    ]);
+  });
+
+  it("stops at the query limit across pages", async () => {
+    fetchMock
+      .mockResolvedValueOnce(page(["a", "b"]))
+      .mockResolvedValueOnce(page(["c"]));
+
+    const snapshots = await collect(
+      createTestClient().collection("scores").limit(3).stream({ pageSize: 2 })
+    );
+
+    expect(snapshots).toHaveLength(3);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentQuery(1).limit).toBe(1);
+  });
+
+  it("keeps the ordered fields in a projection", async () => {
+    fetchMock.mockResolvedValueOnce(page([]));
+
+    await collect(
+      createTestClient()
+        .collectionGroup("scores")
+        .orderBy("points")
+        .select("name")
+        .stream()
+    );
+
+    expect(sentQuery(0).select).toEqual({
+      fields: [{ fieldPath: "name" }, { fieldPath: "points" }],
+    });
+    expect(sentQuery(0).limit).toBe(1000);
+  });
+
+  it("returns only the projected fields", async () => {
+    const document = {
+      name: `${documentsPath}/scores/a`,
+      fields: {
+        name: { stringValue: "Alice" },
+        points: { integerValue: "3" },
+        stats: {
+          mapValue: {
+            fields: {
+              level: { integerValue: "2" },
+              rank: { integerValue: "1" },
+            },
+          },
+        },
+        meta: { mapValue: { fields: { seen: { booleanValue: true } } } },
+      },
+    };
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse([{ document }]))
+      .mockResolvedValueOnce(page([]));
+
+    const snapshots = await collect(
+      createTestClient()
+        .collection("scores")
+        .select("name", "stats.level")
+        .orderBy("points")
+        .orderBy("stats.rank")
+        .orderBy("meta.seen")
+        .stream({ pageSize: 1 })
+    );
+
+    expect(snapshots[0].data()).toEqual({ name: "Alice", stats: { level: 2 } });
+    expect(sentQuery(1).startAt.values).toEqual([
+      { integerValue: "3" },
+      { integerValue: "1" },
+      { booleanValue: true },
+      { referenceValue: `${documentsPath}/scores/a` },
+    ]);
+  });
+
+  it("rejects limitToLast() queries", async () => {
+    const query = createTestClient()
+      .collection("scores")
+      .orderBy("points")
+      .limitToLast(2);
+
+    await expect(collect(query.stream())).rejects.toThrow(/limitToLast/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("propagates API errors", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ error: { status: "INVALID_ARGUMENT" } }, 400)
+    );
+
+    await expect(
+      collect(createTestClient().collection("scores").stream())
+    ).rejects.toThrow(/INVALID_ARGUMENT/);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+type Handler = (url: string, init: any) => { status: number; body: unknown };
+
+let handlers: Record<string, Handler>;
+
+const fetchMock = stubFetch(async (url, init) => {
+  const rpc = /:(\w+)$/.exec(url)?.[1] ?? "get";
+  const { status, body } = handlers[rpc](url, init);
+  return jsonResponse(body, status);
+});
+
+beforeEach(() => {
+  let transactionCount = 0;
+  handlers = {
+    beginTransaction: () => ({
+      status: 200,
+      body: { transaction: `tx${++transactionCount}` },
+    }),
+    commit: () => ({
+      status: 200,
+      body: { writeResults: [], commitTime: "2026-01-01T00:00:00Z" },
+    }),
+    rollback: () => ({ status: 200, body: {} }),
+    get: () => ({
+      status: 200,
+      body: {
+        name: `${documentsPath}/counters/c1`,
+        fields: { count: { integerValue: "1" } },
+      },
+    }),
+  };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function calls(): Array<{ rpc: string; url: string; body: any }> {
+  return fetchMock.mock.calls.map(([url, init]) => ({
+    rpc: /:(\w+)$/.exec(url)?.[1] ?? "get",
+    url,
+    body: init.body ? JSON.parse(init.body) : undefined,
+  }));
+}
+
+describe("runTransaction", () => {
+  it("reads through the transaction and commits buffered writes", async () => {
+    const client = createTestClient();
+    const ref = client.doc("counters/c1");
+
+    const result = await client.runTransaction(async tx => {
+      const snapshot = await tx.get(ref);
+      const count = snapshot.data()!.count;
+      tx.update(ref, { count: count + 1 });
+      return count + 1;
+    });
+
+    expect(result).toBe(2);
+    const sequence = calls();
+    expect(sequence.map(c => c.rpc)).toEqual([
+      "beginTransaction",
+      "get",
+      "commit",
+    ]);
+    expect(sequence[0].body).toEqual({ options: { readWrite: {} } });
+    expect(sequence[1].url).toMatch(/\/counters\/c1\?transaction=tx1$/);
+    expect(sequence[2].body).toEqual({
+      transaction: "tx1",
+      writes: [
+        {
+          update: {
+            name: `${documentsPath}/counters/c1`,
+            fields: { count: { integerValue: 2 } },
+          },
+          updateMask: { fieldPaths: ["count"] },
+          currentDocument: { exists: true },
+        },
+      ],
+    });
+  });
+
+  it("rolls back and rethrows when the function throws", async () => {
+    const client = createTestClient();
+
+    await expect(
+      client.runTransaction(async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    const sequence = calls();
+    expect(sequence.map(c => c.rpc)).toEqual(["beginTransaction", "rollback"]);
+    expect(sequence[1].body).toEqual({ transaction: "tx1" });
+  });
+
+  it("retries on ABORTED, passing the previous transaction ID", async () => {
+    const client = createTestClient();
+    let commits = 0;
+    handlers.commit = () =>
+      ++commits === 1
+        ? { status: 409, body: { error: { code: 409, status: "ABORTED" } } }
+        : {
+            status: 200,
+            body: { writeResults: [{}], commitTime: "2026-01-01T00:00:00Z" },
+          };
+
+    let runs = 0;
+    await client.runTransaction(async tx => {
+      runs++;
+      tx.delete(client.doc("a/b"));
+    });
+
+    expect(runs).toBe(2);
+    const sequence = calls();
+    expect(sequence.map(c => c.rpc)).toEqual([
+      "beginTransaction",
+      "commit",
+      "beginTransaction",
+      "commit",
+    ]);
+    expect(sequence[2].body).toEqual({
+      options: { readWrite: { retryTransaction: "tx1" } },
+    });
+    expect(sequence[3].body.transaction).toBe("tx2");
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const client = createTestClient();
+    handlers.commit = () => ({
+      status: 409,
+      body: { error: { code: 409, status: "ABORTED" } },
+    });
+
+    await expect(
+      client.runTransaction(async () => undefined, { maxAttempts: 2 })
+    ).rejects.toThrow(/ABORTED/);
+    expect(calls().filter(c => c.rpc === "commit")).toHaveLength(2);
+  });
+
+  it("backs off between attempts according to the retry policy", async () => {
+    const delays: number[] = [];
+    const client = createTestClient({
+      retry: {
+        baseDelayMs: 40,
+        maxDelayMs: 100,
+        clock: { now: () => 0, sleep: async ms => void delays.push(ms) },
+      },
+    });
+    handlers.commit = () => ({
+      status: 409,
+      body: { error: { code: 409, status: "ABORTED" } },
+    });
+    // Take the full backoff delay, so the delays are predictable
+    vi.spyOn(Math, "random").mockReturnValue(1);
+
+    await expect(
+      client.runTransaction(async () => undefined, { maxAttempts: 4 })
+    ).rejects.toThrow(/ABORTED/);
+    expect(delays).toEqual([40, 80, 100]);
+  });
+
+  it("does not retry on other errors", async () => {
+    const client = createTestClient();
+    handlers.commit = () => ({
+      status: 400,
+      body: { error: { code: 400, status: "INVALID_ARGUMENT" } },
+    });
+
+    await expect(client.runTransaction(async () => undefined)).rejects.toThrow(
+      /INVALID_ARGUMENT/
+    );
+    expect(calls().map(c => c.rpc)).toEqual(["beginTransaction", "commit"]);
+  });
+
+  it("reads multiple documents through the transaction with getAll()", async () => {
+    const client = createTestClient();
+    handlers.batchGet = () => ({
+      status: 200,
+      body: [{ missing: `${documentsPath}/counters/c2` }],
+    });
+
+    const [snapshot] = await client.runTransaction(async tx =>
+      tx.getAll(client.doc("counters/c2"))
+    );
+
+    expect(snapshot.exists).toBe(false);
+    const sequence = calls();
+    expect(sequence.map(c => c.rpc)).toEqual([
+      "beginTransaction",
+      "batchGet",
+      "commit",
+    ]);
+    expect(sequence[1].body).toEqual({
+      documents: [`${documentsPath}/counters/c2`],
+      transaction: "tx1",
+    });
+  });
+
+  it("rejects reads after writes", async () => {
+    const client = createTestClient();
+    const ref = client.doc("counters/c1");
+
+    await expect(
+      client.runTransaction(async tx => {
+        tx.set(ref, { count: 0 });
+        await tx.get(ref);
+      })
+    ).rejects.toThrow(/reads to be executed before all writes/);
+  });
+});
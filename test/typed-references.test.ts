@@ -0,0 +1,178 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import {
+  CollectionReference,
+  DocumentReference,
+  QuerySnapshot,
+} from "../src/client";
+import { FieldValue } from "../src/field-value";
+import { Transaction } from "../src/transaction";
+import { DocumentData, UpdateData } from "../src/types";
+import { WriteBatch } from "../src/write-batch";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+/**
+ * Unit tests for the type parameters of references and snapshots. The type
+ * expectations are checked by the compiler (`npm run test:types`):
+ * `@ts-expect-error` marks writes that must not compile.
+ */
+
+interface User {
+  name: string;
+  age: number;
+  tags: string[];
+  address: {
+    city: string;
+    geo: { lat: number; lng: number };
+  };
+}
+
+const fetchMock = stubFetch();
+
+describe("typed references", () => {
+  it("types query results with collection<T>()", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse([
+        {
+          document: {
+            name: `${documentsPath}/users/alice`,
+            fields: {
+              name: { stringValue: "Alice" },
+              age: { integerValue: "30" },
+            },
+          },
+        },
+      ])
+    );
+
+    const users = createTestClient().collection<User>("users");
+    expectTypeOf(users).toEqualTypeOf<CollectionReference<User>>();
+    expectTypeOf(users.doc("alice")).toEqualTypeOf<DocumentReference<User>>();
+
+    const snapshot = await users.where("age", ">=", 18).get();
+    expectTypeOf(snapshot).toEqualTypeOf<QuerySnapshot<User>>();
+    expectTypeOf(snapshot.docs[0].data()).toEqualTypeOf<User | undefined>();
+    expect(snapshot.docs[0].data()?.name).toBe("Alice");
+  });
+
+  it("types documents with doc<T>() and collectionGroup<T>()", () => {
+    const client = createTestClient();
+    expectTypeOf(client.doc<User>("users/alice")).toEqualTypeOf<
+      DocumentReference<User>
+    >();
+    expectTypeOf(
+      client.collectionGroup<User>("users").limit(1).get
+    ).returns.resolves.toEqualTypeOf<QuerySnapshot<User>>();
+    expectTypeOf(
+      client.doc("users/alice").collection<User>("friends")
+    ).toEqualTypeOf<CollectionReference<User>>();
+  });
+
+  it("defaults to DocumentData", () => {
+    const client = createTestClient();
+    expectTypeOf(client.collection("users")).toEqualTypeOf<
+      CollectionReference<DocumentData>
+    >();
+    expectTypeOf<UpdateData<DocumentData>>().toMatchTypeOf<{
+      "any.path"?: any;
+    }>();
+  });
+});
+
+describe("update() with UpdateData<T>", () => {
+  it("accepts top-level fields, nested paths and FieldValues", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ writeResults: [{}], commitTime: "2026-01-01T00:00:00Z" })
+    );
+    const client = createTestClient();
+    const ref = client.doc<User>("users/alice");
+
+    await client
+      .batch()
+      .update(ref, {
+        age: FieldValue.increment(1),
+        "address.city": "Tokyo",
+        "address.geo.lat": 35.68,
+        tags: FieldValue.arrayUnion("admin"),
+      })
+      .commit();
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body).writes[0].updateMask.fieldPaths).toEqual([
+      "address.city",
+      "address.geo.lat",
+    ]);
+  });
+
+  it("rejects misspelled and mistyped field paths at compile time", () => {
+    const data: Array<UpdateData<User>> = [
+      { name: "Alice", address: { city: "Tokyo", geo: { lat: 1, lng: 2 } } },
+      { "address.geo": { lat: 1, lng: 2 } },
+      // @ts-expect-error misspelled nested field path
+      { "address.ciy": "Tokyo" },
+      // @ts-expect-error misspelled top-level field
+      { nmae: "Alice" },
+      // @ts-expect-error wrong value type for a nested field path
+      { "address.geo.lat": "north" },
+      // @ts-expect-error paths do not descend into arrays
+      { "tags.0": "admin" },
+    ];
+    expect(data).toHaveLength(6);
+  });
+
+  it("accepts partial data in set() only with merge options", () => {
+    const ref = createTestClient().doc<User>("users/alice");
+    const user: User = {
+      name: "Alice",
+      age: 30,
+      tags: [],
+      address: { city: "Tokyo", geo: { lat: 1, lng: 2 } },
+    };
+    const partial = { age: 31 };
+    const signal = new AbortController().signal;
+
+    // Only type-checked; none of the writes is sent
+    const writes = [
+      () => ref.set(user, { exists: false, signal }),
+      () => ref.set(partial, { merge: true, signal }),
+      () => ref.set(partial, { mergeFields: ["age"] }),
+      // @ts-expect-error a signal alone does not merge
+      () => ref.set(partial, { signal }),
+      // @ts-expect-error merge: false overwrites the document
+      () => ref.set(partial, { merge: false }),
+      (batch: WriteBatch) => batch.set(ref, partial, { merge: true }),
+      // @ts-expect-error a precondition alone does not merge
+      (batch: WriteBatch) => batch.set(ref, partial, { exists: true }),
+      // @ts-expect-error partial data is checked against the reference type
+      (batch: WriteBatch) => batch.set(ref, { aeg: 31 }, { merge: true }),
+      (tx: Transaction) => tx.set(ref, partial, { mergeFields: ["age"] }),
+      // @ts-expect-error empty options do not merge
+      (tx: Transaction) => tx.set(ref, partial, {}),
+    ];
+    expect(writes).toHaveLength(10);
+  });
+
+  it("types DocumentReference.update()", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        name: `${documentsPath}/users/alice`,
+        fields: { age: { integerValue: "31" } },
+        updateTime: "2026-01-01T00:00:00Z",
+      })
+    );
+    const ref = createTestClient().doc<User>("users/alice");
+
+    await ref.update({ "address.city": "Osaka" });
+    // @ts-expect-error misspelled nested field path
+    await ref.update({ "adress.city": "Osaka" });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body).fields).toEqual({
+      address: { mapValue: { fields: { city: { stringValue: "Osaka" } } } },
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { FieldValue } from "../src/field-value";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+/**
+ * Unit tests for field-mask updates. update() must be a single request that
+ * names the updated fields in `updateMask.fieldPaths` and requires the document
+ * to exist, instead of reading the document and writing it back.
+ */
+
+const documentResponse = {
+  name: `${documentsPath}/users/u1`,
+  fields: {
+    name: { stringValue: "Alice" },
+    favorites: { mapValue: { fields: { color: { stringValue: "red" } } } },
+  },
+  updateTime: "2026-01-01T00:00:00Z",
+};
+
+const fetchMock = stubFetch(async () => jsonResponse(documentResponse));
+
+describe("update() with an update mask", () => {
+  it("sends a single PATCH with the mask and an exists precondition", async () => {
+    const updated = await createTestClient().update("users", "u1", {
+      "favorites.color": "red",
+      "my-tag": "x",
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("PATCH");
+    const params = new URL(url).searchParams;
+    expect(params.getAll("updateMask.fieldPaths")).toEqual([
+      "favorites.color",
+      "`my-tag`",
+    ]);
+    expect(params.get("currentDocument.exists")).toBe("true");
+    expect(JSON.parse(init.body)).toEqual({
+      fields: {
+        favorites: {
+          mapValue: { fields: { color: { stringValue: "red" } } },
+        },
+        "my-tag": { stringValue: "x" },
+      },
+    });
+    expect(updated).toEqual({
+      id: "u1",
+      name: "Alice",
+      favorites: { color: "red" },
+    });
+  });
+
+  it("routes transforms through commit with the same mask and precondition", async () => {
+    await createTestClient().update("users", "u1", {
+      name: "Bob",
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    // commit, then read back
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/documents:commit$/);
+    expect(JSON.parse(init.body).writes).toEqual([
+      {
+        update: {
+          name: `${documentsPath}/users/u1`,
+          fields: { name: { stringValue: "Bob" } },
+        },
+        updateMask: { fieldPaths: ["name"] },
+        updateTransforms: [
+          { fieldPath: "updatedAt", setToServerValue: "REQUEST_TIME" },
+        ],
+        currentDocument: { exists: true },
+      },
+    ]);
+  });
+
+  it("removes fields set to FieldValue.delete() via the mask", async () => {
+    await createTestClient().update("users", "u1", {
+      name: "Bob",
+      "favorites.color": FieldValue.delete(),
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(new URL(url).searchParams.getAll("updateMask.fieldPaths")).toEqual([
+      "name",
+      "favorites.color",
+    ]);
+    expect(JSON.parse(init.body)).toEqual({
+      fields: {
+        name: { stringValue: "Bob" },
+        favorites: { mapValue: { fields: {} } },
+      },
+    });
+  });
+
+  it("fails with NOT_FOUND when the document does not exist", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(
+        {
+          error: {
+            code: 404,
+            message: "No document to update",
+            status: "NOT_FOUND",
+          },
+        },
+        404
+      )
+    );
+
+    await expect(
+      createTestClient().update("users", "missing", { name: "x" })
+    ).rejects.toThrow(/NOT_FOUND/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects an empty update", async () => {
+    await expect(createTestClient().update("users", "u1", {})).rejects.toThrow(
+      /At least one field/
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
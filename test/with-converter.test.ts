@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { DocumentSnapshot } from "../src/client";
+import { FirestoreDataConverter, SetOptions } from "../src/types";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+class User {
+  constructor(
+    readonly name: string,
+    readonly age: number
+  ) {}
+
+  greet(): string {
+    return `Hi, ${this.name}`;
+  }
+}
+
+const toFirestore = vi.fn();
+
+const userConverter: FirestoreDataConverter<User> = {
+  toFirestore(user: Partial<User>, options?: SetOptions) {
+    toFirestore(user, options);
+    return { full_name: user.name, age: user.age };
+  },
+  fromFirestore(snapshot: DocumentSnapshot) {
+    const data = snapshot.data()!;
+    return new User(data.full_name, data.age);
+  },
+};
+
+const aliceDocument = {
+  name: `${documentsPath}/users/alice`,
+  fields: {
+    full_name: { stringValue: "Alice" },
+    age: { integerValue: "30" },
+  },
+  updateTime: "2026-01-01T00:00:00Z",
+};
+
+const fetchMock = stubFetch(async () => jsonResponse(aliceDocument));
+
+beforeEach(() => {
+  toFirestore.mockClear();
+});
+
+describe("withConverter()", () => {
+  it("reads documents as models", async () => {
+    const snapshot = await createTestClient()
+      .doc("users/alice")
+      .withConverter(userConverter)
+      .get();
+
+    const user = snapshot.data()!;
+    expect(user).toBeInstanceOf(User);
+    expect(user.greet()).toBe("Hi, Alice");
+    expect(user.age).toBe(30);
+  });
+
+  it("writes models through toFirestore()", async () => {
+    const ref = createTestClient()
+      .collection("users")
+      .withConverter(userConverter)
+      .doc("bob");
+    await ref.set(new User("Bob", 40));
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body).fields).toEqual({
+      full_name: { stringValue: "Bob" },
+      age: { integerValue: 40 },
+    });
+  });
+
+  it("passes merge options to toFirestore()", async () => {
+    await createTestClient()
+      .doc("users/bob")
+      .withConverter(userConverter)
+      .set({ age: 41 }, { merge: true });
+
+    expect(toFirestore).toHaveBeenCalledWith({ age: 41 }, { merge: true });
+  });
+
+  it("converts add() data and returns a typed reference", async () => {
+    const users = createTestClient()
+      .collection("users")
+      .withConverter(userConverter);
+    const ref = await users.add(new User("Carol", 25));
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body).fields.full_name).toEqual({
+      stringValue: "Carol",
+    });
+    expect(ref.converter).toBe(userConverter);
+  });
+
+  it("converts query results and keeps the converter through the query", async () => {
+    fetchMock.mockResolvedValue(jsonResponse([{ document: aliceDocument }]));
+
+    const snapshot = await createTestClient()
+      .collectionGroup("users")
+      .withConverter(userConverter)
+      .where("age", ">=", 18)
+      .orderBy("age")
+      .limit(10)
+      .get();
+
+    expect(snapshot.docs[0].data()).toBeInstanceOf(User);
+    expect(snapshot.docs[0].id).toBe("alice");
+  });
+
+  it("applies the converter in batches and getAll()", async () => {
+    const client = createTestClient();
+    const ref = client.doc("users/alice").withConverter(userConverter);
+
+    fetchMock.mockResolvedValue(
+      jsonResponse({ writeResults: [{}], commitTime: "2026-01-01T00:00:00Z" })
+    );
+    await client.batch().set(ref, new User("Alice", 31)).commit();
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body).writes[0].update.fields.full_name).toEqual({
+      stringValue: "Alice",
+    });
+
+    fetchMock.mockResolvedValue(jsonResponse([{ found: aliceDocument }]));
+    const [snapshot] = await client.getAll(ref);
+    expect(snapshot.data()?.greet()).toBe("Hi, Alice");
+  });
+
+  it("can be removed with withConverter(null)", async () => {
+    const snapshot = await createTestClient()
+      .doc("users/alice")
+      .withConverter(userConverter)
+      .withConverter(null)
+      .get();
+
+    expect(snapshot.data()).toEqual({
+      id: "alice",
+      full_name: "Alice",
+      age: 30,
+    });
+  });
+
+  it("builds cursors from the plain data of a converted snapshot", async () => {
+    fetchMock.mockResolvedValue(jsonResponse([]));
+    const snapshot = new DocumentSnapshot(
+      createTestClient().doc("users/alice").withConverter(userConverter),
+      { full_name: "Alice", age: 30 }
+    );
+
+    await createTestClient()
+      .collection("users")
+      .withConverter(userConverter)
+      .orderBy("full_name")
+      .startAfter(snapshot)
+      .get();
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body).structuredQuery.startAt.values[0]).toEqual({
+      stringValue: "Alice",
+    });
+  });
+});
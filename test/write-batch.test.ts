@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import { WriteResult } from "../src/client";
+import { FieldValue } from "../src/field-value";
+import { expandFieldPaths } from "../src/utils/converter";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  sentBody,
+  stubFetch,
+} from "./helpers";
+
+const fetchMock = stubFetch(async () =>
+  jsonResponse({ writeResults: [], commitTime: "2026-01-01T00:00:00Z" })
+);
+
+describe("WriteBatch", () => {
+  it("sends all writes in a single commit request", async () => {
+    const client = createTestClient();
+    const batch = client.batch();
+    batch
+      .set(client.doc("cities/LA"), { name: "Los Angeles" })
+      .create(client.doc("cities/TK"), { name: "Tokyo" })
+      .update(client.doc("cities/SF"), { population: 1000 })
+      .delete(client.doc("cities/NYC"));
+
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        writeResults: [
+          { updateTime: "2026-01-01T00:00:01Z" },
+          { updateTime: "2026-01-01T00:00:02Z" },
+          { updateTime: "2026-01-01T00:00:03Z" },
+          {},
+        ],
+        commitTime: "2026-01-01T00:00:04Z",
+      })
+    );
+
+    const results = await batch.commit();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("POST");
+    expect(url).toMatch(/documents:commit$/);
+    expect(sentBody(fetchMock)).toEqual({
+      writes: [
+        {
+          update: {
+            name: `${documentsPath}/cities/LA`,
+            fields: { name: { stringValue: "Los Angeles" } },
+          },
+        },
+        {
+          update: {
+            name: `${documentsPath}/cities/TK`,
+            fields: { name: { stringValue: "Tokyo" } },
+          },
+          currentDocument: { exists: false },
+        },
+        {
+          update: {
+            name: `${documentsPath}/cities/SF`,
+            fields: { population: { integerValue: 1000 } },
+          },
+          updateMask: { fieldPaths: ["population"] },
+          currentDocument: { exists: true },
+        },
+        { delete: `${documentsPath}/cities/NYC` },
+      ],
+    });
+
+    expect(results).toHaveLength(4);
+    results.forEach(result => expect(result).toBeInstanceOf(WriteResult));
+    expect(results[0].writeTime.toISOString()).toBe("2026-01-01T00:00:01.000Z");
+    expect(results[2].writeTime.toISOString()).toBe("2026-01-01T00:00:03.000Z");
+    // Deletes have no updateTime; the commit time is used instead
+    expect(results[3].writeTime.toISOString()).toBe("2026-01-01T00:00:04.000Z");
+  });
+
+  it("expands dot-notation keys in update() into nested fields and a mask", async () => {
+    const client = createTestClient();
+    const batch = client.batch();
+    batch.update(client.doc("users/u1"), {
+      "favorites.color": "red",
+      "my-tag": 1,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+
+    expect(sentBody(fetchMock).writes[0]).toEqual({
+      update: {
+        name: `${documentsPath}/users/u1`,
+        fields: {
+          favorites: {
+            mapValue: { fields: { color: { stringValue: "red" } } },
+          },
+          "my-tag": { integerValue: 1 },
+        },
+      },
+      updateMask: { fieldPaths: ["favorites.color", "`my-tag`"] },
+      updateTransforms: [
+        { fieldPath: "updatedAt", setToServerValue: "REQUEST_TIME" },
+      ],
+      currentDocument: { exists: true },
+    });
+  });
+
+  it("returns converted transform results", async () => {
+    const client = createTestClient();
+    const batch = client.batch();
+    batch.update(client.doc("counters/c1"), {
+      count: FieldValue.increment(1),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        writeResults: [
+          {
+            updateTime: "2026-01-01T00:00:01Z",
+            transformResults: [
+              { integerValue: "6" },
+              { timestampValue: "2026-01-01T00:00:01Z" },
+            ],
+          },
+        ],
+        commitTime: "2026-01-01T00:00:01Z",
+      })
+    );
+
+    const [result] = await batch.commit();
+
+    expect(sentBody(fetchMock).writes[0].updateTransforms).toEqual([
+      { fieldPath: "count", increment: { integerValue: 1 } },
+      { fieldPath: "updatedAt", setToServerValue: "REQUEST_TIME" },
+    ]);
+    expect(result.transformResults).toEqual([
+      6,
+      new Date("2026-01-01T00:00:01Z"),
+    ]);
+  });
+
+  it("does not send a request for an empty batch", async () => {
+    const results = await createTestClient().batch().commit();
+    expect(results).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects more than 500 writes", () => {
+    const client = createTestClient();
+    const batch = client.batch();
+    for (let i = 0; i < 500; i++) {
+      batch.delete(client.doc(`items/${i}`));
+    }
+    expect(() => batch.delete(client.doc("items/overflow"))).toThrow(/500/);
+  });
+
+  it("cannot be used after commit()", async () => {
+    const client = createTestClient();
+    const batch = client.batch();
+    await batch.commit();
+    expect(() => batch.set(client.doc("a/b"), {})).toThrow(/commit\(\)/);
+    await expect(batch.commit()).rejects.toThrow(/commit\(\)/);
+  });
+
+  it("rejects an empty update", () => {
+    const client = createTestClient();
+    expect(() => client.batch().update(client.doc("a/b"), {})).toThrow(
+      /At least one field/
+    );
+  });
+
+  it("propagates commit errors", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ error: { status: "NOT_FOUND" } }, 404)
+    );
+    const client = createTestClient();
+    const batch = client.batch().update(client.doc("a/b"), { x: 1 });
+    await expect(batch.commit()).rejects.toThrow(/NOT_FOUND/);
+  });
+});
+
+describe("expandFieldPaths", () => {
+  it("nests dotted paths and escapes non-simple segments", () => {
+    expect(expandFieldPaths({ "a.b": 1, "a.c-d": 2, e: { f: 3 } })).toEqual({
+      data: { a: { b: 1, "c-d": 2 }, e: { f: 3 } },
+      fieldPaths: ["a.b", "a.`c-d`", "e"],
+    });
+  });
+
+  it("leaves FieldValue sentinels out of the mask", () => {
+    const ts = FieldValue.serverTimestamp();
+    expect(expandFieldPaths({ "meta.at": ts })).toEqual({
+      data: { meta: { at: ts } },
+      fieldPaths: [],
+    });
+  });
+
+  it("rejects a path that is a prefix of another", () => {
+    expect(() => expandFieldPaths({ a: {}, "a.b": 1 })).toThrow(/conflicts/);
+    expect(() => expandFieldPaths({ "a.b": 1, a: {} })).toThrow(/conflicts/);
+  });
+
+  it("rejects empty path segments", () => {
+    expect(() => expandFieldPaths({ "a..b": 1 })).toThrow(/Invalid field path/);
+  });
+});
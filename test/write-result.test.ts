@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { FieldValue } from "../src/field-value";
+import {
+  createTestClient,
+  documentsPath,
+  jsonResponse,
+  stubFetch,
+} from "./helpers";
+
+const fetchMock = stubFetch();
+
+const patchedDocument = {
+  name: `${documentsPath}/users/alice`,
+  fields: { name: { stringValue: "Alice" } },
+  createTime: "2026-01-01T00:00:00Z",
+  updateTime: "2026-01-02T03:04:05.678Z",
+};
+
+const commitResponse = {
+  writeResults: [
+    {
+      updateTime: "2026-01-02T03:04:05.678Z",
+      transformResults: [{ integerValue: "8" }],
+    },
+  ],
+  commitTime: "2026-01-02T03:04:06Z",
+};
+
+describe("DocumentReference WriteResult", () => {
+  it("uses the update time of a PATCH response", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(patchedDocument));
+    const ref = createTestClient().doc("users/alice");
+
+    const results = [
+      await ref.set({ name: "Alice" }),
+      await ref.set({ name: "Alice" }, { merge: true }),
+      await ref.update({ name: "Alice" }),
+    ];
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual([
+      "PATCH",
+      "PATCH",
+      "PATCH",
+    ]);
+    for (const result of results) {
+      expect(result.writeTime).toEqual(new Date("2026-01-02T03:04:05.678Z"));
+      expect(result.transformResults).toEqual([]);
+    }
+  });
+
+  it("returns transform results from commit without reading back", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(commitResponse));
+
+    const result = await createTestClient()
+      .doc("users/alice")
+      .update({ visits: FieldValue.increment(1) });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/:commit$/);
+    expect(result.writeTime).toEqual(new Date("2026-01-02T03:04:05.678Z"));
+    expect(result.transformResults).toEqual([8]);
+  });
+
+  it("deletes through commit and uses the commit time", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ writeResults: [{}], commitTime: "2026-01-02T03:04:06Z" })
+    );
+
+    const result = await createTestClient().doc("users/alice").delete();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/:commit$/);
+    expect(JSON.parse(init.body)).toEqual({
+      writes: [{ delete: `${documentsPath}/users/alice` }],
+    });
+    expect(result.writeTime).toEqual(new Date("2026-01-02T03:04:06Z"));
+  });
+});
+
+describe("document-returning write methods", () => {
+  it("attach the server's write result to the document", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(patchedDocument));
+    const client = createTestClient();
+
+    const documents = [
+      await client.add("users", { name: "Alice" }),
+      await client.createWithId("users", "alice", { name: "Alice" }),
+      await client.update("users", "alice", { name: "Alice" }),
+      await client.set("users", "alice", { name: "Alice" }),
+    ];
+
+    for (const document of documents) {
+      expect(document).toEqual({ id: "alice", name: "Alice" });
+      expect(document.writeResult.writeTime).toEqual(
+        new Date("2026-01-02T03:04:05.678Z")
+      );
+      expect(JSON.stringify(document)).not.toContain("writeResult");
+    }
+  });
+
+  it("uses the write result of the commit for a read-back document", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(commitResponse))
+      .mockResolvedValueOnce(jsonResponse(patchedDocument));
+
+    const added = await createTestClient().add("users", {
+      visits: FieldValue.increment(1),
+    });
+
+    expect(added.writeResult.transformResults).toEqual([8]);
+  });
+
+  it("delete() resolves to the commit time", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ writeResults: [{}], commitTime: "2026-01-02T03:04:06Z" })
+    );
+
+    const result = await createTestClient().delete("users", "alice");
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/:commit$/);
+    expect(result.writeTime).toEqual(new Date("2026-01-02T03:04:06Z"));
+  });
+
+  it("still read the document back after a commit", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(commitResponse))
+      .mockResolvedValueOnce(jsonResponse(patchedDocument));
+
+    const updated = await createTestClient().update("users", "alice", {
+      visits: FieldValue.increment(1),
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].method).toBe("GET");
+    expect(updated).toEqual({ id: "alice", name: "Alice" });
+  });
+});